@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { shopifyHelpers } from '@/lib/shopify';
+import { db } from '@/lib/db';
+import { getShopForRequest } from '@/lib/api';
+import { CONSENT_CATEGORY_IDS } from '@/lib/consent';
+import { COOKIE_DECLARATION_KEY, MAX_DECLARED_COOKIES } from '@/lib/declaration';
+import { SCAN_SETTINGS_KEY } from '@/lib/scanner';
+
+const declaredCookieSchema = z.object({
+  name: z.string().trim().min(1, 'Cookie name cannot be empty').max(100),
+  provider: z.string().trim().max(100),
+  purpose: z.string().trim().max(300),
+  category: z.enum(CONSENT_CATEGORY_IDS),
+  duration: z.string().trim().max(50),
+});
+
+const cookieDeclarationSchema = z.object({
+  cookies: z.array(declaredCookieSchema).max(MAX_DECLARED_COOKIES).refine(
+    (cookies) => new Set(cookies.map(cookie => cookie.name)).size === cookies.length,
+    'Each cookie can only be declared once'
+  ),
+});
+
+// GET /api/cookies - Get the cookie declaration and the latest scan to import from
+export async function GET(request: NextRequest) {
+  try {
+    const result = await getShopForRequest(request);
+    if ('error' in result) return result.error;
+    const { shopRecord } = result;
+
+    const cookies = await db.getShopSettings(shopRecord.id, COOKIE_DECLARATION_KEY);
+    const scan = await db.getShopSettings(shopRecord.id, SCAN_SETTINGS_KEY);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        cookies: cookies || [],
+        scan: scan || null,
+      },
+    });
+
+  } catch (error) {
+    console.error('Cookie declaration GET error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to get cookie declaration' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/cookies - Replace the cookie declaration
+export async function POST(request: NextRequest) {
+  try {
+    const result = await getShopForRequest(request);
+    if ('error' in result) return result.error;
+    const { session, shopRecord } = result;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { cookies } = cookieDeclarationSchema.parse(body);
+
+    await db.updateShopSettings(shopRecord.id, COOKIE_DECLARATION_KEY, cookies);
+
+    // Published to the app-owned metafield rendered by the Cookie Declaration block
+    try {
+      await shopifyHelpers.setAppMetafield(session, COOKIE_DECLARATION_KEY, cookies);
+    } catch (syncError) {
+      console.error('Failed to sync cookie declaration to storefront:', syncError);
+    }
+
+    await db.createAuditLog({
+      shopId: shopRecord.id,
+      action: 'cookie_declaration_updated',
+      resource: COOKIE_DECLARATION_KEY,
+      details: {
+        cookies: cookies.length,
+      },
+      userAgent: request.headers.get('user-agent') || undefined,
+      ipAddress: request.headers.get('x-forwarded-for') ||
+                 request.headers.get('x-real-ip') ||
+                 'unknown',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        cookies,
+      },
+      message: 'Cookie declaration updated successfully',
+    });
+
+  } catch (error) {
+    console.error('Cookie declaration POST error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid cookie declaration',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update cookie declaration' },
+      { status: 500 }
+    );
+  }
+}
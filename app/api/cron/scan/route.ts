@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { runStorefrontScan, SCAN_SETTINGS_KEY } from '@/lib/scanner';
+
+// Each shop is rescanned weekly. The job runs hourly (see vercel.json), and every shop comes due
+// once per interval, so each run scans its share of all shops; the stalest ones go first.
+const SCAN_INTERVAL_DAYS = 7;
+const RUNS_PER_INTERVAL = SCAN_INTERVAL_DAYS * 24;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is a cron job request
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const scanBefore = new Date(Date.now() - SCAN_INTERVAL_DAYS * 24 * 60 * 60 * 1000);
+    const shopCount = await db.countShops();
+    const batchSize = Math.max(1, Math.ceil(shopCount / RUNS_PER_INTERVAL));
+    const shops = await db.findShopsWithStaleSetting(SCAN_SETTINGS_KEY, scanBefore, batchSize);
+
+    const results = {
+      scanned: 0,
+      failed: 0,
+    };
+
+    for (const shop of shops) {
+      try {
+        await runStorefrontScan(shop);
+        results.scanned++;
+      } catch (error) {
+        console.error(`Cookie scan failed for ${shop.shopifyDomain}:`, error);
+        results.failed++;
+      }
+    }
+
+    console.log('Cookie scan completed:', results);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Cookie scan completed successfully',
+      results,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Cookie scan cron job failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Cookie scan failed',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { shopifyHelpers } from '@/lib/shopify';
+import { db } from '@/lib/db';
+import { getShopForRequest } from '@/lib/api';
+import { defaultConsentCategories, defaultPopupSettings } from '@/lib/consent';
+import {
+  PRIVACY_POLICY_JURISDICTIONS,
+  PRIVACY_POLICY_TARGETS,
+  detectJurisdiction,
+  diffPolicies,
+  generatePrivacyPolicy,
+  getBusinessDetails,
+} from '@/lib/privacy-policy';
+import type { PopupSettings, Shop } from '@/types';
+
+const previewSchema = z.object({
+  target: z.enum(PRIVACY_POLICY_TARGETS).default('page'),
+  jurisdiction: z.enum(PRIVACY_POLICY_JURISDICTIONS).optional(),
+});
+
+const publishSchema = z.object({
+  target: z.enum(PRIVACY_POLICY_TARGETS),
+  jurisdiction: z.enum(PRIVACY_POLICY_JURISDICTIONS),
+  // Required to replace a policy that differs from the generated one
+  overwrite: z.boolean().default(false),
+});
+
+// Generated policy for the shop, describing the categories the popup offers
+async function buildPolicy(shopRecord: Shop, jurisdiction?: z.infer<typeof previewSchema>['jurisdiction']) {
+  const details = getBusinessDetails(shopRecord);
+  const resolvedJurisdiction = jurisdiction || detectJurisdiction(details.country);
+  const popupSettings = await db.getShopSettings(shopRecord.id, 'popup_settings') as PopupSettings | null;
+
+  return {
+    details,
+    jurisdiction: resolvedJurisdiction,
+    popupSettings,
+    body: generatePrivacyPolicy(
+      details,
+      resolvedJurisdiction,
+      (popupSettings?.categories || defaultConsentCategories).filter(category => category.enabled)
+    ),
+  };
+}
+
+function validationError(error: z.ZodError) {
+  return NextResponse.json(
+    {
+      error: 'Invalid privacy policy options',
+      details: error.errors.map(err => ({
+        field: err.path.join('.'),
+        message: err.message,
+      })),
+    },
+    { status: 400 }
+  );
+}
+
+// GET /api/privacy-policy - Preview the generated policy and how it differs from the current one
+export async function GET(request: NextRequest) {
+  try {
+    const result = await getShopForRequest(request);
+    if ('error' in result) return result.error;
+    const { session, shopRecord } = result;
+
+    const url = new URL(request.url);
+    const options = previewSchema.parse({
+      target: url.searchParams.get('target') || undefined,
+      jurisdiction: url.searchParams.get('jurisdiction') || undefined,
+    });
+
+    const policy = await buildPolicy(shopRecord, options.jurisdiction);
+    const current = await shopifyHelpers.getPrivacyPolicy(session, options.target);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        target: options.target,
+        jurisdiction: policy.jurisdiction,
+        details: policy.details,
+        body: policy.body,
+        exists: Boolean(current),
+        diff: current ? diffPolicies(current.body, policy.body) : null,
+      },
+    });
+
+  } catch (error) {
+    console.error('Privacy policy GET error:', error);
+
+    if (error instanceof z.ZodError) {
+      return validationError(error);
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to generate privacy policy' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/privacy-policy - Publish the generated policy and link the popup to it
+export async function POST(request: NextRequest) {
+  try {
+    const result = await getShopForRequest(request);
+    if ('error' in result) return result.error;
+    const { session, shopRecord } = result;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const options = publishSchema.parse(body);
+
+    const policy = await buildPolicy(shopRecord, options.jurisdiction);
+    const current = await shopifyHelpers.getPrivacyPolicy(session, options.target);
+
+    if (current && !options.overwrite) {
+      const diff = diffPolicies(current.body, policy.body);
+      if (diff.some(line => line.type !== 'unchanged')) {
+        return NextResponse.json(
+          {
+            error: 'A privacy policy already exists. Review the changes before replacing it.',
+            data: { diff },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const linkUrl = await shopifyHelpers.publishPrivacyPolicy(session, options.target, policy.body);
+
+    // Shops that never saved their settings start from the defaults, whose link may not exist
+    const updatedSettings = { ...(policy.popupSettings || defaultPopupSettings), linkUrl };
+    await db.updateShopSettings(shopRecord.id, 'popup_settings', updatedSettings);
+
+    try {
+      await shopifyHelpers.setAppMetafield(session, 'popup_settings', updatedSettings);
+    } catch (syncError) {
+      console.error('Failed to sync settings to storefront:', syncError);
+    }
+
+    await db.createAuditLog({
+      shopId: shopRecord.id,
+      action: 'privacy_policy_published',
+      resource: 'privacy_policy',
+      details: {
+        target: options.target,
+        jurisdiction: policy.jurisdiction,
+        replaced: Boolean(current),
+        linkUrl,
+      },
+      userAgent: request.headers.get('user-agent') || undefined,
+      ipAddress: request.headers.get('x-forwarded-for') ||
+                 request.headers.get('x-real-ip') ||
+                 'unknown',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        linkUrl,
+      },
+      message: 'Privacy policy published successfully',
+    });
+
+  } catch (error) {
+    console.error('Privacy policy POST error:', error);
+
+    if (error instanceof z.ZodError) {
+      return validationError(error);
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to publish privacy policy' },
+      { status: 500 }
+    );
+  }
+}
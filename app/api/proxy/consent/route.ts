@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { shopifyHelpers } from '@/lib/shopify';
+import { db } from '@/lib/db';
+import { CONSENT_CATEGORY_IDS } from '@/lib/consent';
+import { z } from 'zod';
+
+const consentRecordSchema = z.object({
+  visitorId: z.string().regex(/^[A-Za-z0-9-]{8,64}$/, 'Invalid visitor ID'),
+  action: z.enum(['accept_all', 'reject_all', 'custom', 'shopify', 'gpc', 'dnt']),
+  status: z.enum(['granted', 'denied', 'partial']),
+  categories: z.record(z.enum(CONSENT_CATEGORY_IDS), z.boolean()),
+  version: z.number().int().min(1),
+  region: z.string().regex(/^[A-Z]{2}(-[A-Z0-9]{1,3})?$/).optional(),
+});
+
+// POST /api/proxy/consent - Record a storefront visitor's consent decision
+// Reached through the app proxy at /apps/privacy-popup/consent
+export async function POST(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+
+    // Verify app proxy signature
+    if (!shopifyHelpers.verifyProxySignature(url.searchParams)) {
+      return NextResponse.json(
+        { error: 'Invalid proxy signature' },
+        { status: 401 }
+      );
+    }
+
+    const shop = url.searchParams.get('shop');
+    if (!shop) {
+      return NextResponse.json(
+        { error: 'Missing shop parameter' },
+        { status: 400 }
+      );
+    }
+
+    const shopRecord = await db.findShopByDomain(shop);
+    if (!shopRecord) {
+      return NextResponse.json(
+        { error: 'Shop not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedRecord = consentRecordSchema.parse(body);
+
+    // Only a hash of the user agent is kept, so records stay anonymous
+    const userAgent = request.headers.get('user-agent');
+    const userAgentHash = userAgent
+      ? createHash('sha256').update(userAgent).digest('hex')
+      : undefined;
+
+    const record = await db.createConsentRecord({
+      shopId: shopRecord.id,
+      visitorId: validatedRecord.visitorId,
+      action: validatedRecord.action,
+      status: validatedRecord.status,
+      categories: { ...validatedRecord.categories, necessary: true },
+      version: validatedRecord.version,
+      ...(validatedRecord.region && { region: validatedRecord.region }),
+      ...(userAgentHash && { userAgentHash }),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: record.id,
+          createdAt: record.createdAt,
+        },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Consent record POST error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid consent record',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record consent' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shopifyHelpers } from '@/lib/shopify';
+import { db } from '@/lib/db';
+import { defaultConsentModeSettings } from '@/lib/consent';
+
+// GET /api/proxy/settings - Get live popup settings for the storefront
+// Reached through the app proxy at /apps/privacy-popup/settings
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+
+    // Verify app proxy signature
+    if (!shopifyHelpers.verifyProxySignature(url.searchParams)) {
+      return NextResponse.json(
+        { error: 'Invalid proxy signature' },
+        { status: 401 }
+      );
+    }
+
+    const shop = url.searchParams.get('shop');
+    if (!shop) {
+      return NextResponse.json(
+        { error: 'Missing shop parameter' },
+        { status: 400 }
+      );
+    }
+
+    const shopRecord = await db.findShopByDomain(shop);
+    if (!shopRecord) {
+      return NextResponse.json(
+        { error: 'Shop not found' },
+        { status: 404 }
+      );
+    }
+
+    // Shops that never saved settings use the theme block settings as-is
+    const popupSettings = await db.getShopSettings(shopRecord.id, 'popup_settings');
+    const consentMode = await db.getShopSettings(shopRecord.id, 'google_consent_mode');
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        popupSettings: popupSettings || null,
+        consentMode: consentMode || defaultConsentModeSettings,
+      },
+    });
+
+  } catch (error) {
+    console.error('Proxy settings GET error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to get settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getShopForRequest } from '@/lib/api';
+import { runStorefrontScan, SCAN_SETTINGS_KEY } from '@/lib/scanner';
+
+// GET /api/scanner - Get the latest cookie scan
+export async function GET(request: NextRequest) {
+  try {
+    const result = await getShopForRequest(request);
+    if ('error' in result) return result.error;
+    const { shopRecord } = result;
+
+    const scan = await db.getShopSettings(shopRecord.id, SCAN_SETTINGS_KEY);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        scan: scan || null,
+      },
+    });
+
+  } catch (error) {
+    console.error('Scanner GET error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to get cookie scan' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/scanner - Scan the storefront now
+export async function POST(request: NextRequest) {
+  try {
+    const result = await getShopForRequest(request);
+    if ('error' in result) return result.error;
+    const { shopRecord } = result;
+
+    const scan = await runStorefrontScan(shopRecord);
+
+    await db.createAuditLog({
+      shopId: shopRecord.id,
+      action: 'cookie_scan_completed',
+      resource: 'cookie_scan',
+      details: {
+        cookies: scan.cookies.length,
+        resources: scan.resources.length,
+        passwordProtected: scan.passwordProtected,
+      },
+      userAgent: request.headers.get('user-agent') || undefined,
+      ipAddress: request.headers.get('x-forwarded-for') ||
+                 request.headers.get('x-real-ip') ||
+                 'unknown',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        scan,
+      },
+      message: 'Storefront scanned successfully',
+    });
+
+  } catch (error) {
+    console.error('Scanner POST error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to scan storefront' },
+      { status: 500 }
+    );
+  }
+}
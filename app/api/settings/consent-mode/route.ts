@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shopify, shopifyHelpers } from '@/lib/shopify';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+
+const consentModeSchema = z.object({
+  enabled: z.boolean(),
+  // ISO 3166-1 country codes, optionally with an ISO 3166-2 subdivision (e.g. US-CA)
+  regions: z.array(
+    z.string().regex(/^[A-Z]{2}(-[A-Z0-9]{1,3})?$/, 'Must be a country or region code like DE or US-CA')
+  ).max(300),
+});
+
+// POST /api/settings/consent-mode - Update Google Consent Mode settings
+export async function POST(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const shop = url.searchParams.get('shop');
+
+    if (!shop) {
+      return NextResponse.json(
+        { error: 'Missing shop parameter' },
+        { status: 400 }
+      );
+    }
+
+    // Get session
+    const sessionId = shopify.session.getOfflineId(shop);
+    const session = await shopify.config.sessionStorage.loadSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'No active session found' },
+        { status: 401 }
+      );
+    }
+
+    // Get shop from database
+    const shopRecord = await db.findShopByDomain(shop);
+    if (!shopRecord) {
+      return NextResponse.json(
+        { error: 'Shop not found' },
+        { status: 404 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedSettings = consentModeSchema.parse(body);
+
+    await db.updateShopSettings(shopRecord.id, 'google_consent_mode', validatedSettings);
+
+    // The compliance_head embed reads these before any other script runs
+    try {
+      await shopifyHelpers.setAppMetafield(session, 'consent_mode', validatedSettings);
+    } catch (error) {
+      console.error('Failed to sync consent mode to storefront:', error);
+    }
+
+    // Log settings update
+    await db.createAuditLog({
+      shopId: shopRecord.id,
+      action: 'settings_updated',
+      resource: 'google_consent_mode',
+      details: {
+        updatedSettings: validatedSettings,
+      },
+      userAgent: request.headers.get('user-agent') || undefined,
+      ipAddress: request.headers.get('x-forwarded-for') ||
+                 request.headers.get('x-real-ip') ||
+                 'unknown',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: validatedSettings,
+      message: 'Google Consent Mode settings updated successfully',
+    });
+
+  } catch (error) {
+    console.error('Consent mode POST error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid consent mode settings',
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update consent mode settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,21 +1,195 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { shopify } from '@/lib/shopify';
+import { shopify, shopifyHelpers } from '@/lib/shopify';
 import { db } from '@/lib/db';
+import {
+  CONSENT_CATEGORY_IDS,
+  CONSENT_STORAGE_MODES,
+  COOKIE_SAME_SITE_VALUES,
+  DISPLAY_TRIGGER_TYPES,
+  POPUP_COLOR_SCHEMES,
+  POPUP_LAYOUTS,
+  POPUP_STRING_KEYS,
+  REGION_BEHAVIORS,
+  REGION_GROUPS,
+  REOPEN_WIDGET_ICONS,
+  REOPEN_WIDGET_POSITIONS,
+  REOPEN_WIDGET_STYLES,
+  defaultConsentModeSettings,
+  defaultDarkColors,
+  defaultHighContrastColors,
+  defaultPopupSettings,
+  popupLabelMaxLengths,
+} from '@/lib/consent';
+import type { PopupLabelKey } from '@/types';
+import { isSafeCustomCss, scopeCustomCss } from '@/lib/css';
+import { isSafeMessageMarkdown } from '@/lib/markdown';
 import { z } from 'zod';
 
+const consentCategorySchema = z.object({
+  id: z.enum(CONSENT_CATEGORY_IDS),
+  label: z.string().min(1).max(50),
+  description: z.string().max(500),
+  enabled: z.boolean(),
+});
+
+const regionRuleSchema = z.object({
+  regions: z.array(
+    z.string().refine(
+      (code) => /^[A-Z]{2}(-[A-Z0-9]{1,3})?$/.test(code) || REGION_GROUPS.includes(code),
+      'Must be a country or region code like DE or US-CA, or a region group like EEA'
+    )
+  ).min(1).max(100),
+  behavior: z.enum(REGION_BEHAVIORS),
+});
+
+const pageRuleSchema = z.object({
+  mode: z.enum(['include', 'exclude']),
+  match: z.enum(['template', 'url']),
+  value: z.string().min(1).max(200),
+}).superRefine((rule, ctx) => {
+  // Templates as exposed by `template.name`, optionally with an alternate template suffix;
+  // URL patterns are storefront paths where * matches anything
+  if (rule.match === 'template' && !/^[a-z_]+(\.[a-z0-9_-]+)?$/.test(rule.value)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: 'Must be a template name like product or page.landing',
+    });
+  }
+  if (rule.match === 'url' && !/^\/[^\s?#]*$/.test(rule.value)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: 'Must be a path starting with /, such as /collections/sale*',
+    });
+  }
+});
+
+const MESSAGE_MARKDOWN_ERROR =
+  'Message can only use **bold**, *italic* and [links](https://example.com); HTML and javascript: links are not allowed';
+
+const translationSchema = z.object({
+  message: z.string().max(1000).refine(isSafeMessageMarkdown, MESSAGE_MARKDOWN_ERROR),
+  strings: z.record(z.enum(POPUP_STRING_KEYS), z.string().max(300)),
+  categories: z.record(
+    z.enum(CONSENT_CATEGORY_IDS),
+    z.object({
+      label: z.string().max(50),
+      description: z.string().max(500),
+    }).partial()
+  ),
+});
+
+const consentStorageSchema = z.object({
+  mode: z.enum(CONSENT_STORAGE_MODES),
+  cookieDomain: z.string().trim().toLowerCase().regex(
+    /^(\.?([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,})?$/,
+    'Must be a domain like .example.com'
+  ),
+  sameSite: z.enum(COOKIE_SAME_SITE_VALUES),
+  cookieLifetimeDays: z.number().int().min(1).max(730),
+});
+
+const labelSchema = (key: PopupLabelKey) =>
+  z.string().trim().min(1, 'Label cannot be empty').max(popupLabelMaxLengths[key]);
+
+const popupLabelsSchema = z.object({
+  accept: labelSchema('accept'),
+  reject: labelSchema('reject'),
+  customize: labelSchema('customize'),
+  dismiss: labelSchema('dismiss'),
+  acknowledge: labelSchema('acknowledge'),
+  savePreferences: labelSchema('savePreferences'),
+  back: labelSchema('back'),
+  learnMore: labelSchema('learnMore'),
+  close: labelSchema('close'),
+  reopen: labelSchema('reopen'),
+});
+
+const reopenWidgetSchema = z.object({
+  enabled: z.boolean(),
+  position: z.enum(REOPEN_WIDGET_POSITIONS),
+  style: z.enum(REOPEN_WIDGET_STYLES),
+  icon: z.enum(REOPEN_WIDGET_ICONS),
+});
+
+const hexColorSchema = z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Must be a valid hex color');
+
+const colorVariantSchema = z.object({
+  enabled: z.boolean(),
+  bgColor: hexColorSchema,
+  textColor: hexColorSchema,
+  linkColor: hexColorSchema,
+});
+
+const displayTriggerSchema = z.object({
+  type: z.enum(DISPLAY_TRIGGER_TYPES),
+  delaySeconds: z.number().int().min(0).max(300),
+  scrollPercent: z.number().int().min(1).max(100),
+  pageViews: z.number().int().min(1).max(20),
+});
+
+// Must match the premium plan name in app/api/billing/subscribe/route.ts
+const PREMIUM_PLAN_NAME = 'Privacy Popup Premium';
+
 const popupSettingsSchema = z.object({
-  message: z.string().min(1).max(1000),
+  message: z.string().min(1).max(1000).refine(isSafeMessageMarkdown, MESSAGE_MARKDOWN_ERROR),
   linkUrl: z.string().url().or(z.string().regex(/^\//, 'Must be a valid URL or relative path')),
+  layout: z.enum(POPUP_LAYOUTS),
   position: z.enum(['top', 'bottom', 'left', 'right']),
+  showBackdrop: z.boolean(),
   maxWidth: z.number().min(200).max(800),
   padding: z.number().min(10).max(50),
   zIndex: z.number().min(1).max(99999),
   dismissible: z.boolean(),
-  bgColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Must be a valid hex color'),
-  textColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Must be a valid hex color'),
-  linkColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Must be a valid hex color'),
+  showRejectAll: z.boolean(),
+  honorDoNotTrack: z.boolean(),
+  bgColor: hexColorSchema,
+  textColor: hexColorSchema,
+  linkColor: hexColorSchema,
+  colorScheme: z.enum(POPUP_COLOR_SCHEMES),
+  darkColors: colorVariantSchema,
+  highContrastColors: colorVariantSchema,
+  categories: z.array(consentCategorySchema)
+    .refine(
+      (categories) => new Set(categories.map(category => category.id)).size === categories.length,
+      'Each consent category can only appear once'
+    )
+    .refine(
+      (categories) => categories.some(category => category.id === 'necessary' && category.enabled),
+      'The strictly necessary category must be enabled'
+    ),
+  consentVersion: z.number().int().min(1),
+  consentLifetimeDays: z.number().int().min(1).max(730),
+  storage: consentStorageSchema,
+  regionRules: z.array(regionRuleSchema).max(20),
+  defaultRegionBehavior: z.enum(REGION_BEHAVIORS),
+  displayTrigger: displayTriggerSchema,
+  pageRules: z.array(pageRuleSchema).max(50),
+  reopenWidget: reopenWidgetSchema,
+  customCss: z.string().max(10000).refine(
+    isSafeCustomCss,
+    'Custom CSS cannot contain HTML, url(), @import, escapes, script expressions, unbalanced braces or keyframes whose name does not start with privacy-popup-'
+  ).transform(scopeCustomCss),
+  labels: popupLabelsSchema,
+  translations: z.record(
+    z.string().regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,4})?$/, 'Must be a locale code like fr or pt-BR'),
+    translationSchema
+  ).refine(
+    (translations) => Object.keys(translations).length <= 50,
+    'A maximum of 50 languages is supported'
+  ),
 });
 
+// Publish settings to the app-owned metafield rendered by the theme extension
+async function syncStorefrontSettings(session: any, settings: z.infer<typeof popupSettingsSchema>) {
+  try {
+    await shopifyHelpers.setAppMetafield(session, 'popup_settings', settings);
+  } catch (error) {
+    console.error('Failed to sync settings to storefront:', error);
+  }
+}
+
 // GET /api/settings - Get current popup settings
 export async function GET(request: NextRequest) {
   try {
@@ -58,23 +232,23 @@ export async function GET(request: NextRequest) {
     // Get theme change notification
     const themeChangeNotification = await db.getShopSettings(shopRecord.id, 'theme_change_notification');
 
+    // Get Google Consent Mode settings
+    const consentMode = await db.getShopSettings(shopRecord.id, 'google_consent_mode');
+
+    // Get subscription status for premium features
+    const activeSubscription = await db.getActiveSubscription(shopRecord.id);
+    const hasActiveSubscription = activeSubscription?.status === 'ACTIVE';
+
     return NextResponse.json({
       success: true,
       data: {
-        popupSettings: popupSettings || {
-          message: 'We use cookies to enhance your browsing experience and analyze our traffic. By continuing to use our site, you consent to our use of cookies.',
-          linkUrl: '/pages/privacy-policy',
-          position: 'bottom',
-          maxWidth: 400,
-          padding: 20,
-          zIndex: 9999,
-          dismissible: true,
-          bgColor: '#ffffff',
-          textColor: '#333333',
-          linkColor: '#007ace',
-        },
+        popupSettings: popupSettings || defaultPopupSettings,
         themeInfo,
         themeChangeNotification,
+        consentMode: consentMode || defaultConsentModeSettings,
+        primaryLocale: shopRecord.primaryLocale || 'en',
+        hasActiveSubscription,
+        hasPremiumSubscription: hasActiveSubscription && activeSubscription.name === PREMIUM_PLAN_NAME,
       },
     });
 
@@ -128,6 +302,7 @@ export async function POST(request: NextRequest) {
     // Check if shop has active subscription for advanced features
     const activeSubscription = await db.getActiveSubscription(shopRecord.id);
     const hasActiveSubscription = activeSubscription?.status === 'ACTIVE';
+    const hasPremiumSubscription = hasActiveSubscription && activeSubscription.name === PREMIUM_PLAN_NAME;
 
     // Restrict advanced features based on subscription
     if (!hasActiveSubscription) {
@@ -138,10 +313,14 @@ export async function POST(request: NextRequest) {
         bgColor: '#ffffff',
         textColor: '#333333',
         linkColor: '#007ace',
+        darkColors: { ...defaultDarkColors, enabled: validatedSettings.darkColors.enabled },
+        highContrastColors: { ...defaultHighContrastColors, enabled: validatedSettings.highContrastColors.enabled },
+        customCss: '',
       };
       
       // Update settings with restrictions
       await db.updateShopSettings(shopRecord.id, 'popup_settings', restrictedSettings);
+      await syncStorefrontSettings(session, restrictedSettings);
       
       // Log settings update
       await db.createAuditLog({
@@ -150,7 +329,7 @@ export async function POST(request: NextRequest) {
         resource: 'popup_settings',
         details: {
           updatedSettings: restrictedSettings,
-          restrictedFeatures: ['custom_colors'],
+          restrictedFeatures: ['custom_colors', 'custom_css'],
           subscriptionRequired: true,
         },
         userAgent: request.headers.get('user-agent') || undefined,
@@ -163,12 +342,19 @@ export async function POST(request: NextRequest) {
         success: true,
         data: restrictedSettings,
         warning: 'Some advanced styling options require an active subscription',
-        restrictedFeatures: ['custom_colors'],
+        restrictedFeatures: ['custom_colors', 'custom_css'],
       });
     }
 
+    // Custom CSS is only available on the premium plan
+    const restrictedFeatures = !hasPremiumSubscription && validatedSettings.customCss ? ['custom_css'] : [];
+    const subscribedSettings = restrictedFeatures.length > 0
+      ? { ...validatedSettings, customCss: '' }
+      : validatedSettings;
+
     // Update settings for subscribed users
-    await db.updateShopSettings(shopRecord.id, 'popup_settings', validatedSettings);
+    await db.updateShopSettings(shopRecord.id, 'popup_settings', subscribedSettings);
+    await syncStorefrontSettings(session, subscribedSettings);
 
     // Log settings update
     await db.createAuditLog({
@@ -176,8 +362,9 @@ export async function POST(request: NextRequest) {
       action: 'settings_updated',
       resource: 'popup_settings',
       details: {
-        updatedSettings: validatedSettings,
+        updatedSettings: subscribedSettings,
         hasSubscription: true,
+        ...(restrictedFeatures.length > 0 && { restrictedFeatures }),
       },
       userAgent: request.headers.get('user-agent') || undefined,
       ipAddress: request.headers.get('x-forwarded-for') || 
@@ -185,9 +372,18 @@ export async function POST(request: NextRequest) {
                  'unknown',
     });
 
+    if (restrictedFeatures.length > 0) {
+      return NextResponse.json({
+        success: true,
+        data: subscribedSettings,
+        warning: 'Custom CSS requires a premium subscription',
+        restrictedFeatures,
+      });
+    }
+
     return NextResponse.json({
       success: true,
-      data: validatedSettings,
+      data: subscribedSettings,
       message: 'Settings updated successfully',
     });
 
@@ -0,0 +1,281 @@
+'use client';
+
+import {
+  Page,
+  Card,
+  Stack,
+  Text,
+  TextField,
+  Select,
+  Button,
+  Banner,
+  Layout,
+  Box,
+  Toast,
+  Frame
+} from '@shopify/polaris';
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { defaultConsentCategories } from '@/lib/consent';
+import { MAX_DECLARED_COOKIES, mergeScannedCookies } from '@/lib/declaration';
+import type { ConsentCategoryId, CookieScanResult, DeclaredCookie } from '@/types';
+
+const categoryOptions = defaultConsentCategories.map(category => ({
+  label: category.label,
+  value: category.id,
+}));
+
+const emptyCookie: DeclaredCookie = {
+  name: '',
+  provider: '',
+  purpose: '',
+  category: 'necessary',
+  duration: '',
+};
+
+export default function CookieDeclaration() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [cookies, setCookies] = useState<DeclaredCookie[]>([]);
+  const [scan, setScan] = useState<CookieScanResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ content: string; error?: boolean } | null>(null);
+
+  const searchParams = useSearchParams();
+  const shop = searchParams?.get('shop') || '';
+  const host = searchParams?.get('host') || '';
+
+  useEffect(() => {
+    if (shop) {
+      fetchDeclaration();
+    }
+  }, [shop]);
+
+  const fetchDeclaration = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/cookies?shop=${shop}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch cookie declaration');
+      }
+
+      const data = await response.json();
+      setCookies(data.data.cookies);
+      setScan(data.data.scan);
+    } catch (err) {
+      console.error('Cookie declaration fetch error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load cookie declaration');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(`/api/cookies?shop=${shop}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ cookies }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save cookie declaration');
+      }
+
+      setCookies(data.data.cookies);
+      setToast({ content: 'Cookie declaration saved' });
+    } catch (err) {
+      console.error('Cookie declaration save error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save cookie declaration');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCookieChange = useCallback((index: number, changes: Partial<DeclaredCookie>) => {
+    setCookies(prev => prev.map((cookie, cookieIndex) =>
+      cookieIndex === index ? { ...cookie, ...changes } : cookie
+    ));
+  }, []);
+
+  const addCookie = useCallback(() => {
+    setCookies(prev => [...prev, { ...emptyCookie }]);
+  }, []);
+
+  const removeCookie = useCallback((index: number) => {
+    setCookies(prev => prev.filter((_, cookieIndex) => cookieIndex !== index));
+  }, []);
+
+  const importScan = useCallback(() => {
+    if (!scan) return;
+
+    const result = mergeScannedCookies(cookies, scan);
+    setCookies(result.cookies);
+    setToast({
+      content: result.skipped > 0
+        ? `Added ${result.added} cookies, skipped ${result.skipped} uncategorized`
+        : `Added ${result.added} cookies`,
+    });
+  }, [cookies, scan]);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const toastMarkup = toast ? (
+    <Toast
+      content={toast.content}
+      error={toast.error}
+      onDismiss={dismissToast}
+    />
+  ) : null;
+
+  return (
+    <Frame>
+      <Page
+        title="Cookie Declaration"
+        subtitle="The cookies your store uses, listed on your privacy policy page"
+        breadcrumbs={[{ content: 'Dashboard', url: `/dashboard?shop=${shop}&host=${host}` }]}
+        primaryAction={{
+          content: 'Save',
+          onAction: handleSave,
+          loading: saving,
+        }}
+        secondaryActions={[
+          {
+            content: 'Import from last scan',
+            onAction: importScan,
+            disabled: !scan,
+          },
+        ]}
+      >
+        <Layout>
+          <Layout.Section>
+            <Stack vertical spacing="loose">
+              {error && (
+                <Banner status="critical" title="Error">
+                  <p>{error}</p>
+                </Banner>
+              )}
+
+              {!scan && (
+                <Banner status="info" title="Start from a scan">
+                  <p>
+                    Run the Cookie Scanner to find the cookies your storefront sets, then import them
+                    here instead of adding each one by hand.
+                  </p>
+                </Banner>
+              )}
+
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Text variant="headingMd" as="h3">
+                      Cookies
+                    </Text>
+
+                    {cookies.length === 0 && (
+                      <Text variant="bodyMd" as="p" color="subdued">
+                        No cookies declared yet.
+                      </Text>
+                    )}
+
+                    {cookies.map((cookie, index) => (
+                      <Box key={index} paddingBlockEnd="4">
+                        <Stack vertical spacing="tight">
+                          <Stack alignment="trailing">
+                            <Stack.Item fill>
+                              <TextField
+                                label="Name"
+                                value={cookie.name}
+                                onChange={(value) => handleCookieChange(index, { name: value })}
+                                placeholder="_ga"
+                                maxLength={100}
+                              />
+                            </Stack.Item>
+                            <Stack.Item fill>
+                              <TextField
+                                label="Provider"
+                                value={cookie.provider}
+                                onChange={(value) => handleCookieChange(index, { provider: value })}
+                                placeholder="Google Analytics"
+                                maxLength={100}
+                              />
+                            </Stack.Item>
+                            <Select
+                              label="Category"
+                              options={categoryOptions}
+                              value={cookie.category}
+                              onChange={(value) => handleCookieChange(index, {
+                                category: value as ConsentCategoryId,
+                              })}
+                            />
+                            <TextField
+                              label="Duration"
+                              value={cookie.duration}
+                              onChange={(value) => handleCookieChange(index, { duration: value })}
+                              placeholder="2 years"
+                              maxLength={50}
+                            />
+                          </Stack>
+                          <Stack alignment="trailing">
+                            <Stack.Item fill>
+                              <TextField
+                                label="Purpose"
+                                value={cookie.purpose}
+                                onChange={(value) => handleCookieChange(index, { purpose: value })}
+                                placeholder="Distinguishes visitors"
+                                maxLength={300}
+                              />
+                            </Stack.Item>
+                            <Button onClick={() => removeCookie(index)} destructive outline>
+                              Remove
+                            </Button>
+                          </Stack>
+                        </Stack>
+                      </Box>
+                    ))}
+
+                    <Button onClick={addCookie} disabled={cookies.length >= MAX_DECLARED_COOKIES}>
+                      Add cookie
+                    </Button>
+                  </Stack>
+                </Box>
+              </Card>
+            </Stack>
+          </Layout.Section>
+
+          <Layout.Section secondary>
+            <Card>
+              <Box padding="4">
+                <Stack vertical spacing="tight">
+                  <Text variant="headingMd" as="h3">
+                    Show it on your store
+                  </Text>
+                  <Text variant="bodyMd" as="p">
+                    Add the <strong>Cookie Declaration</strong> app block to your privacy policy page
+                    in the theme editor. It lists these cookies in a table, grouped by the category
+                    labels from your popup settings.
+                  </Text>
+                </Stack>
+              </Box>
+            </Card>
+          </Layout.Section>
+        </Layout>
+        {toastMarkup}
+      </Page>
+    </Frame>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import {
+  Page,
+  Card,
+  Stack,
+  Text,
+  Select,
+  Button,
+  Banner,
+  Layout,
+  Box,
+  Toast,
+  Frame
+} from '@shopify/polaris';
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import type {
+  PolicyBusinessDetails,
+  PolicyDiffLine,
+  PrivacyPolicyJurisdiction,
+  PrivacyPolicyTarget,
+} from '@/types';
+
+interface PolicyPreview {
+  target: PrivacyPolicyTarget;
+  jurisdiction: PrivacyPolicyJurisdiction;
+  details: PolicyBusinessDetails;
+  body: string;
+  exists: boolean;
+  diff: PolicyDiffLine[] | null;
+}
+
+const targetOptions = [
+  { label: 'Online store page (/pages/privacy-policy)', value: 'page' },
+  { label: 'Store privacy policy (/policies/privacy-policy)', value: 'shop_policy' },
+];
+
+const jurisdictionOptions = [
+  { label: 'EU and EEA (GDPR)', value: 'gdpr' },
+  { label: 'United Kingdom (UK GDPR)', value: 'uk_gdpr' },
+  { label: 'United States (CCPA and state laws)', value: 'us' },
+  { label: 'Other countries', value: 'general' },
+];
+
+const diffLineStyles: Record<PolicyDiffLine['type'], { background: string; prefix: string }> = {
+  added: { background: '#e3f1df', prefix: '+ ' },
+  removed: { background: '#fbeae5', prefix: '- ' },
+  unchanged: { background: 'transparent', prefix: '  ' },
+};
+
+export default function PrivacyPolicyGenerator() {
+  const [loading, setLoading] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+  const [preview, setPreview] = useState<PolicyPreview | null>(null);
+  const [target, setTarget] = useState<PrivacyPolicyTarget>('page');
+  const [jurisdiction, setJurisdiction] = useState<PrivacyPolicyJurisdiction | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ content: string; error?: boolean } | null>(null);
+
+  const searchParams = useSearchParams();
+  const shop = searchParams?.get('shop') || '';
+  const host = searchParams?.get('host') || '';
+
+  useEffect(() => {
+    if (shop) {
+      fetchPreview();
+    }
+  }, [shop, target, jurisdiction]);
+
+  const fetchPreview = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setShowDiff(false);
+
+      const params = new URLSearchParams({ shop, target });
+      if (jurisdiction) params.set('jurisdiction', jurisdiction);
+
+      const response = await fetch(`/api/privacy-policy?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to generate privacy policy');
+      }
+
+      const data = await response.json();
+      setPreview(data.data);
+    } catch (err) {
+      console.error('Privacy policy preview error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate privacy policy');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePublish = async (overwrite: boolean) => {
+    if (!preview) return;
+
+    try {
+      setPublishing(true);
+      setError(null);
+
+      const response = await fetch(`/api/privacy-policy?shop=${shop}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          target: preview.target,
+          jurisdiction: preview.jurisdiction,
+          overwrite,
+        }),
+      });
+
+      const data = await response.json();
+
+      // The policy changed since the preview was loaded; show the latest differences
+      if (response.status === 409) {
+        setPreview(prev => prev ? { ...prev, diff: data.data.diff } : prev);
+        setShowDiff(true);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to publish privacy policy');
+      }
+
+      await fetchPreview();
+      setToast({ content: 'Privacy policy published' });
+    } catch (err) {
+      console.error('Privacy policy publish error:', err);
+      setToast({
+        content: err instanceof Error ? err.message : 'Failed to publish privacy policy',
+        error: true,
+      });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const toastMarkup = toast ? (
+    <Toast
+      content={toast.content}
+      error={toast.error}
+      onDismiss={dismissToast}
+    />
+  ) : null;
+
+  const hasChanges = preview?.diff ? preview.diff.some(line => line.type !== 'unchanged') : true;
+
+  return (
+    <Frame>
+      <Page
+        title="Privacy Policy"
+        subtitle="Generate a privacy policy from your store details"
+        breadcrumbs={[{ content: 'Settings', url: `/settings?shop=${shop}&host=${host}` }]}
+      >
+        <Layout>
+          <Layout.Section>
+            <Stack vertical spacing="loose">
+              {error && (
+                <Banner status="warning" onDismiss={() => setError(null)}>
+                  <p>{error}</p>
+                </Banner>
+              )}
+
+              <Banner status="info">
+                <p>
+                  The generated policy is a starting point and not legal advice. Review it with your
+                  legal advisor before you rely on it.
+                </p>
+              </Banner>
+
+              {preview && (
+                <Card>
+                  <Box padding="4">
+                    <Stack vertical spacing="loose">
+                      <Text variant="headingMd" as="h3">
+                        Policy
+                      </Text>
+
+                      <Select
+                        label="Publish to"
+                        options={targetOptions}
+                        value={target}
+                        onChange={(value) => setTarget(value as PrivacyPolicyTarget)}
+                      />
+
+                      <Select
+                        label="Privacy law"
+                        options={jurisdictionOptions}
+                        value={preview.jurisdiction}
+                        onChange={(value) => setJurisdiction(value as PrivacyPolicyJurisdiction)}
+                        helpText="Detected from your store's country. Choose the law that applies to your customers."
+                      />
+
+                      {!preview.exists && (
+                        <Button primary onClick={() => handlePublish(false)} loading={publishing}>
+                          Create privacy policy
+                        </Button>
+                      )}
+
+                      {preview.exists && !showDiff && (
+                        <Stack vertical spacing="tight">
+                          <Text variant="bodyMd" as="p" color="subdued">
+                            {hasChanges
+                              ? 'A privacy policy already exists. Review the changes before replacing it.'
+                              : 'Your privacy policy is up to date.'}
+                          </Text>
+                          <Button onClick={() => setShowDiff(true)} disabled={!hasChanges}>
+                            Regenerate
+                          </Button>
+                        </Stack>
+                      )}
+                    </Stack>
+                  </Box>
+                </Card>
+              )}
+
+              {preview && showDiff && preview.diff && (
+                <Card>
+                  <Box padding="4">
+                    <Stack vertical spacing="loose">
+                      <Text variant="headingMd" as="h3">
+                        Changes
+                      </Text>
+
+                      <Text variant="bodyMd" as="p" color="subdued">
+                        Lines marked - will be removed and lines marked + will be added. Any edits
+                        you made to the current policy in Shopify will be lost.
+                      </Text>
+
+                      <div style={{ fontFamily: 'monospace', fontSize: '12px', overflowX: 'auto' }}>
+                        {preview.diff.map((line, index) => (
+                          <div
+                            key={index}
+                            style={{
+                              background: diffLineStyles[line.type].background,
+                              padding: '2px 8px',
+                              whiteSpace: 'pre-wrap',
+                              wordBreak: 'break-word',
+                            }}
+                          >
+                            {diffLineStyles[line.type].prefix}{line.text}
+                          </div>
+                        ))}
+                      </div>
+
+                      <Stack>
+                        <Button primary destructive onClick={() => handlePublish(true)} loading={publishing}>
+                          Replace privacy policy
+                        </Button>
+                        <Button onClick={() => setShowDiff(false)}>
+                          Cancel
+                        </Button>
+                      </Stack>
+                    </Stack>
+                  </Box>
+                </Card>
+              )}
+
+              {preview && !showDiff && (
+                <Card>
+                  <Box padding="4">
+                    <Stack vertical spacing="loose">
+                      <Text variant="headingMd" as="h3">
+                        Preview
+                      </Text>
+                      <div dangerouslySetInnerHTML={{ __html: preview.body }} />
+                    </Stack>
+                  </Box>
+                </Card>
+              )}
+            </Stack>
+          </Layout.Section>
+
+          <Layout.Section secondary>
+            {preview && (
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="tight">
+                    <Text variant="headingMd" as="h3">
+                      Business details
+                    </Text>
+                    <Text variant="bodyMd" as="p">{preview.details.name}</Text>
+                    {preview.details.address && (
+                      <Text variant="bodyMd" as="p">{preview.details.address}</Text>
+                    )}
+                    {preview.details.email && (
+                      <Text variant="bodyMd" as="p">{preview.details.email}</Text>
+                    )}
+                    <Text variant="bodySm" as="p" color="subdued">
+                      Change these in Shopify under Settings &gt; Store details, then regenerate the
+                      policy.
+                    </Text>
+                  </Stack>
+                </Box>
+              </Card>
+            )}
+          </Layout.Section>
+        </Layout>
+        {toastMarkup}
+      </Page>
+    </Frame>
+  );
+}
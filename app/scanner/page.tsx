@@ -0,0 +1,267 @@
+'use client';
+
+import {
+  Page,
+  Card,
+  Stack,
+  Text,
+  Badge,
+  Banner,
+  Layout,
+  Box,
+  DataTable,
+  EmptyState,
+  Toast,
+  Frame
+} from '@shopify/polaris';
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import type { ConsentCategoryId, CookieScanResult } from '@/types';
+
+const categoryBadges: Record<ConsentCategoryId, { status: 'success' | 'info' | 'attention' | 'warning'; label: string }> = {
+  necessary: { status: 'success', label: 'Strictly necessary' },
+  preferences: { status: 'info', label: 'Preferences' },
+  analytics: { status: 'attention', label: 'Analytics' },
+  marketing: { status: 'warning', label: 'Marketing' },
+};
+
+function getCategoryBadge(category: ConsentCategoryId | null) {
+  if (!category) {
+    return <Badge>Unknown</Badge>;
+  }
+  const badge = categoryBadges[category];
+  return <Badge status={badge.status}>{badge.label}</Badge>;
+}
+
+export default function Scanner() {
+  const [loading, setLoading] = useState(true);
+  const [scanning, setScanning] = useState(false);
+  const [scan, setScan] = useState<CookieScanResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ content: string; error?: boolean } | null>(null);
+
+  const searchParams = useSearchParams();
+  const shop = searchParams?.get('shop') || '';
+  const host = searchParams?.get('host') || '';
+
+  useEffect(() => {
+    if (shop) {
+      fetchScan();
+    }
+  }, [shop]);
+
+  const fetchScan = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/scanner?shop=${shop}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch cookie scan');
+      }
+
+      const data = await response.json();
+      setScan(data.data.scan);
+    } catch (err) {
+      console.error('Cookie scan fetch error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load cookie scan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runScan = async () => {
+    try {
+      setScanning(true);
+      setError(null);
+
+      const response = await fetch(`/api/scanner?shop=${shop}`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to scan storefront');
+      }
+
+      setScan(data.data.scan);
+      setToast({ content: 'Storefront scanned' });
+    } catch (err) {
+      console.error('Cookie scan error:', err);
+      setToast({
+        content: err instanceof Error ? err.message : 'Failed to scan storefront',
+        error: true,
+      });
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const toastMarkup = toast ? (
+    <Toast
+      content={toast.content}
+      error={toast.error}
+      onDismiss={dismissToast}
+    />
+  ) : null;
+
+  const uncategorizedCount = scan
+    ? scan.cookies.filter(cookie => !cookie.category).length +
+      scan.resources.filter(resource => !resource.category).length
+    : 0;
+
+  return (
+    <Frame>
+      <Page
+        title="Cookie Scanner"
+        subtitle="Find the cookies and third-party scripts your storefront uses"
+        breadcrumbs={[{ content: 'Dashboard', url: `/dashboard?shop=${shop}&host=${host}` }]}
+        primaryAction={{
+          content: scan ? 'Scan again' : 'Scan storefront',
+          onAction: runScan,
+          loading: scanning,
+        }}
+      >
+        <Layout>
+          <Layout.Section>
+            <Stack vertical spacing="loose">
+              {error && (
+                <Banner status="critical" title="Error">
+                  <p>{error}</p>
+                </Banner>
+              )}
+
+              {!scan && (
+                <Card>
+                  <EmptyState
+                    heading="Scan your storefront"
+                    action={{ content: 'Scan storefront', onAction: runScan, loading: scanning }}
+                    image=""
+                  >
+                    <p>
+                      The scanner visits a few pages of your store, records the cookies they set and
+                      the third-party scripts they load, and sorts them into consent categories.
+                    </p>
+                  </EmptyState>
+                </Card>
+              )}
+
+              {scan && scan.passwordProtected && (
+                <Banner status="warning" title="Your store is password protected">
+                  <p>
+                    Only the password page could be scanned. Remove the storefront password and
+                    scan again to see the cookies your theme and apps set.
+                  </p>
+                </Banner>
+              )}
+
+              {scan && uncategorizedCount > 0 && (
+                <Banner status="info" title={`${uncategorizedCount} items could not be categorized`}>
+                  <p>
+                    These come from vendors the scanner does not know yet. Check what they are used
+                    for before deciding which consent category they belong to.
+                  </p>
+                </Banner>
+              )}
+
+              {scan && (
+                <Card>
+                  <Box padding="4">
+                    <Stack vertical spacing="loose">
+                      <Text variant="headingMd" as="h3">
+                        Cookies
+                      </Text>
+
+                      <Text variant="bodyMd" as="p" color="subdued">
+                        Cookies marked &quot;Expected&quot; are set from JavaScript by a detected
+                        vendor script, so they may not appear in every browser.
+                      </Text>
+
+                      <DataTable
+                        columnContentTypes={['text', 'text', 'text', 'text', 'text']}
+                        headings={['Name', 'Provider', 'Category', 'Duration', 'Purpose']}
+                        rows={scan.cookies.map(cookie => [
+                          <Stack spacing="tight" key={cookie.name}>
+                            <Text variant="bodyMd" as="span" fontWeight="semibold">{cookie.name}</Text>
+                            {cookie.source === 'vendor' && <Badge>Expected</Badge>}
+                          </Stack>,
+                          cookie.vendor || 'Unknown',
+                          getCategoryBadge(cookie.category),
+                          cookie.duration || '',
+                          cookie.purpose || '',
+                        ])}
+                      />
+                    </Stack>
+                  </Box>
+                </Card>
+              )}
+
+              {scan && (
+                <Card>
+                  <Box padding="4">
+                    <Stack vertical spacing="loose">
+                      <Text variant="headingMd" as="h3">
+                        Third-party scripts and embeds
+                      </Text>
+
+                      <DataTable
+                        columnContentTypes={['text', 'text', 'text', 'text', 'text']}
+                        headings={['Origin', 'Type', 'Provider', 'Category', 'Found on']}
+                        rows={scan.resources.map(resource => [
+                          resource.origin,
+                          resource.type === 'iframe' ? 'Embed' : 'Script',
+                          resource.vendor || 'Unknown',
+                          getCategoryBadge(resource.category),
+                          resource.pages.join(', '),
+                        ])}
+                      />
+                    </Stack>
+                  </Box>
+                </Card>
+              )}
+            </Stack>
+          </Layout.Section>
+
+          <Layout.Section secondary>
+            {scan && (
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="tight">
+                    <Text variant="headingMd" as="h3">
+                      Last scan
+                    </Text>
+                    <Text variant="bodyMd" as="p">
+                      {new Date(scan.scannedAt).toLocaleString()}
+                    </Text>
+                    <Text variant="bodyMd" as="p" color="subdued">
+                      {scan.origin}
+                    </Text>
+                    {scan.pages.map(page => (
+                      <Stack distribution="equalSpacing" key={page.path}>
+                        <Text variant="bodyMd" as="span">{page.path}</Text>
+                        {page.status >= 200 && page.status < 400
+                          ? <Badge status="success">{String(page.status)}</Badge>
+                          : <Badge status="critical">{page.status ? String(page.status) : 'Failed'}</Badge>}
+                      </Stack>
+                    ))}
+                    <Text variant="bodySm" as="p" color="subdued">
+                      Stores are rescanned automatically every week.
+                    </Text>
+                  </Stack>
+                </Box>
+              </Card>
+            )}
+          </Layout.Section>
+        </Layout>
+        {toastMarkup}
+      </Page>
+    </Frame>
+  );
+}
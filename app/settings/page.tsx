@@ -11,48 +11,186 @@ import {
   Checkbox,
   Button,
   Banner,
+  Badge,
   Layout,
   Box,
   ColorPicker,
   Popover,
   ButtonGroup,
   Toast,
-  Frame
+  Frame,
+  hexToRgb,
+  hsbToHex,
+  rgbToHsb
 } from '@shopify/polaris';
 import { useState, useEffect, useCallback } from 'react';
 import { useSearchParams } from 'next/navigation';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import { renderMessageMarkdown } from '@/lib/markdown';
+import {
+  defaultConsentCategories,
+  defaultConsentModeSettings,
+  defaultConsentStorage,
+  defaultDarkColors,
+  defaultDisplayTrigger,
+  defaultHighContrastColors,
+  defaultPopupLabels,
+  defaultPopupStrings,
+  defaultReopenWidget,
+  POPUP_LABEL_KEYS,
+  POPUP_STRING_KEYS,
+  popupLabelMaxLengths,
+  recommendedRegionRules,
+} from '@/lib/consent';
+import type {
+  ConsentCategory,
+  ConsentCategoryId,
+  ConsentModeSettings,
+  ConsentStorageMode,
+  ConsentStorageSettings,
+  CookieSameSite,
+  DisplayTrigger,
+  DisplayTriggerType,
+  PageRule,
+  PopupColorScheme,
+  PopupColorVariant,
+  PopupLabelKey,
+  PopupLabels,
+  PopupLayout,
+  PopupStringKey,
+  PopupTranslation,
+  RegionBehavior,
+  RegionRule,
+  ReopenWidget,
+  ReopenWidgetIcon,
+  ReopenWidgetPosition,
+  ReopenWidgetStyle,
+} from '@/types';
 
 interface PopupSettings {
   message: string;
   linkUrl: string;
+  layout: PopupLayout;
   position: 'top' | 'bottom' | 'left' | 'right';
+  showBackdrop: boolean;
   maxWidth: number;
   padding: number;
   zIndex: number;
   dismissible: boolean;
+  showRejectAll: boolean;
+  honorDoNotTrack: boolean;
   bgColor: string;
   textColor: string;
   linkColor: string;
+  colorScheme: PopupColorScheme;
+  darkColors: PopupColorVariant;
+  highContrastColors: PopupColorVariant;
+  categories: ConsentCategory[];
+  consentVersion: number;
+  consentLifetimeDays: number;
+  storage: ConsentStorageSettings;
+  regionRules: RegionRule[];
+  defaultRegionBehavior: RegionBehavior;
+  displayTrigger: DisplayTrigger;
+  pageRules: PageRule[];
+  reopenWidget: ReopenWidget;
+  customCss: string;
+  labels: PopupLabels;
+  translations: Record<string, PopupTranslation>;
 }
 
 interface SettingsData {
   popupSettings: PopupSettings;
+  consentMode?: ConsentModeSettings;
+  primaryLocale?: string;
   hasActiveSubscription: boolean;
+  hasPremiumSubscription?: boolean;
   restrictedFeatures?: string[];
 }
 
 const defaultSettings: PopupSettings = {
   message: 'We use cookies to enhance your browsing experience and analyze our traffic. By continuing to use our site, you consent to our use of cookies.',
   linkUrl: '/pages/privacy-policy',
+  layout: 'card',
   position: 'bottom',
+  showBackdrop: true,
   maxWidth: 400,
   padding: 20,
   zIndex: 9999,
   dismissible: true,
+  showRejectAll: true,
+  honorDoNotTrack: false,
   bgColor: '#ffffff',
   textColor: '#333333',
   linkColor: '#007ace',
+  colorScheme: 'custom',
+  darkColors: defaultDarkColors,
+  highContrastColors: defaultHighContrastColors,
+  categories: defaultConsentCategories,
+  consentVersion: 1,
+  consentLifetimeDays: 365,
+  storage: defaultConsentStorage,
+  regionRules: [],
+  defaultRegionBehavior: 'banner',
+  displayTrigger: defaultDisplayTrigger,
+  pageRules: [],
+  reopenWidget: defaultReopenWidget,
+  customCss: '',
+  labels: defaultPopupLabels,
+  translations: {},
+};
+
+// Mirrors the layout rules in privacy-popup.css inside the preview box
+function getPreviewPlacement(layout: PopupLayout, position: PopupSettings['position']): React.CSSProperties {
+  switch (layout) {
+    case 'bar-top':
+      return { top: 0, left: 0, right: 0 };
+    case 'bar-bottom':
+      return { bottom: 0, left: 0, right: 0 };
+    case 'corner-bottom-left':
+      return { bottom: '10px', left: '10px' };
+    case 'corner-bottom-right':
+      return { bottom: '10px', right: '10px' };
+    case 'modal':
+      return { top: '50%', left: '50%', transform: 'translate(-50%, -50%)' };
+    default:
+      return {
+        [position === 'top' ? 'top' : 
+         position === 'bottom' ? 'bottom' : 
+         position]: '10px',
+        [position === 'left' ? 'left' : 
+         position === 'right' ? 'right' : 'left']: 
+         position === 'left' || position === 'right' ? '10px' : '50%',
+        transform: position === 'top' || position === 'bottom' ? 
+                 'translateX(-50%)' : 'none',
+      };
+  }
+}
+
+const popupStringLabels: Record<PopupStringKey, string> = {
+  title: 'Screen reader title',
+  close: 'Close button label',
+  accept: 'Accept button',
+  reject: 'Reject all button',
+  customize: 'Customize button',
+  dismiss: 'Dismiss button',
+  acknowledge: 'Notice acknowledgment button',
+  learnMore: 'Privacy policy link',
+  preferencesTitle: 'Preferences heading',
+  savePreferences: 'Save preferences button',
+  back: 'Back button',
+  shownAnnouncement: 'Screen reader announcement when shown',
+  dismissedAnnouncement: 'Screen reader announcement when dismissed',
+  savedAnnouncement: 'Screen reader announcement when saved',
+  gpcAcknowledgment: 'Global Privacy Control acknowledgment',
+  dntAcknowledgment: 'Do Not Track acknowledgment',
+  reopen: 'Cookie settings button',
+};
+
+const emptyTranslation: PopupTranslation = {
+  message: '',
+  strings: {},
+  categories: {},
 };
 
 export default function Settings() {
@@ -60,10 +198,16 @@ export default function Settings() {
   const [saving, setSaving] = useState(false);
   const [settings, setSettings] = useState<PopupSettings>(defaultSettings);
   const [hasActiveSubscription, setHasActiveSubscription] = useState(false);
+  const [hasPremiumSubscription, setHasPremiumSubscription] = useState(false);
   const [restrictedFeatures, setRestrictedFeatures] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [toast, setToast] = useState<{ content: string; error?: boolean } | null>(null);
   const [colorPickerActive, setColorPickerActive] = useState<string | null>(null);
+  const [consentMode, setConsentMode] = useState<ConsentModeSettings>(defaultConsentModeSettings);
+  const [consentModeRegions, setConsentModeRegions] = useState('');
+  const [primaryLocale, setPrimaryLocale] = useState('en');
+  const [translationLocale, setTranslationLocale] = useState('');
+  const [newLocale, setNewLocale] = useState('');
   
   const searchParams = useSearchParams();
   const shop = searchParams?.get('shop') || '';
@@ -88,8 +232,14 @@ export default function Settings() {
       const data = await response.json();
       const settingsData: SettingsData = data.data;
       
-      setSettings(settingsData.popupSettings || defaultSettings);
+      // Fill in fields added after the settings were last saved
+      setSettings({ ...defaultSettings, ...settingsData.popupSettings });
+      setConsentMode(settingsData.consentMode || defaultConsentModeSettings);
+      setConsentModeRegions((settingsData.consentMode?.regions || []).join(', '));
+      setPrimaryLocale(settingsData.primaryLocale || 'en');
+      setTranslationLocale(Object.keys(settingsData.popupSettings?.translations || {})[0] || '');
       setHasActiveSubscription(settingsData.hasActiveSubscription);
+      setHasPremiumSubscription(settingsData.hasPremiumSubscription || false);
       setRestrictedFeatures(settingsData.restrictedFeatures || []);
     } catch (err) {
       console.error('Settings fetch error:', err);
@@ -109,7 +259,13 @@ export default function Settings() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(settings),
+        body: JSON.stringify({
+          ...settings,
+          regionRules: settings.regionRules.map(rule => ({
+            ...rule,
+            regions: rule.regions.filter(Boolean),
+          })),
+        }),
       });
 
       const data = await response.json();
@@ -122,6 +278,31 @@ export default function Settings() {
       setSettings(data.data);
       setRestrictedFeatures(data.restrictedFeatures || []);
 
+      const consentModeResponse = await fetch(`/api/settings/consent-mode?shop=${shop}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...consentMode,
+          regions: consentModeRegions
+            .split(',')
+            .map(region => region.trim().toUpperCase())
+            .filter(Boolean),
+        }),
+      });
+
+      const consentModeData = await consentModeResponse.json();
+
+      if (!consentModeResponse.ok) {
+        throw new Error(
+          consentModeData.details?.[0]?.message || consentModeData.error || 'Failed to save Google Consent Mode settings'
+        );
+      }
+
+      setConsentMode(consentModeData.data);
+      setConsentModeRegions(consentModeData.data.regions.join(', '));
+
       setToast({
         content: data.warning || 'Settings saved successfully',
         error: !!data.warning,
@@ -173,6 +354,140 @@ export default function Settings() {
     }));
   }, []);
 
+  const handleColorVariantChange = useCallback(
+    (variant: 'darkColors' | 'highContrastColors', update: Partial<PopupColorVariant>) => {
+      setSettings(prev => ({
+        ...prev,
+        [variant]: { ...prev[variant], ...update },
+      }));
+    },
+    []
+  );
+
+  const handleCategoryChange = useCallback(
+    (id: ConsentCategoryId, changes: Partial<Omit<ConsentCategory, 'id'>>) => {
+      setSettings(prev => ({
+        ...prev,
+        categories: prev.categories.map(category =>
+          category.id === id ? { ...category, ...changes } : category
+        ),
+      }));
+    },
+    []
+  );
+
+  const handleRegionRuleChange = useCallback((index: number, changes: Partial<RegionRule>) => {
+    setSettings(prev => ({
+      ...prev,
+      regionRules: prev.regionRules.map((rule, ruleIndex) =>
+        ruleIndex === index ? { ...rule, ...changes } : rule
+      ),
+    }));
+  }, []);
+
+  const addRegionRule = useCallback(() => {
+    setSettings(prev => ({
+      ...prev,
+      regionRules: [...prev.regionRules, { regions: [], behavior: 'banner' }],
+    }));
+  }, []);
+
+  const removeRegionRule = useCallback((index: number) => {
+    setSettings(prev => ({
+      ...prev,
+      regionRules: prev.regionRules.filter((_, ruleIndex) => ruleIndex !== index),
+    }));
+  }, []);
+
+  const handlePageRuleChange = useCallback((index: number, changes: Partial<PageRule>) => {
+    setSettings(prev => ({
+      ...prev,
+      pageRules: prev.pageRules.map((rule, ruleIndex) =>
+        ruleIndex === index ? { ...rule, ...changes } : rule
+      ),
+    }));
+  }, []);
+
+  const addPageRule = useCallback(() => {
+    setSettings(prev => ({
+      ...prev,
+      pageRules: [...prev.pageRules, { mode: 'exclude', match: 'template', value: '' }],
+    }));
+  }, []);
+
+  const removePageRule = useCallback((index: number) => {
+    setSettings(prev => ({
+      ...prev,
+      pageRules: prev.pageRules.filter((_, ruleIndex) => ruleIndex !== index),
+    }));
+  }, []);
+
+  const applyRecommendedRegionRules = useCallback(() => {
+    setSettings(prev => ({
+      ...prev,
+      regionRules: recommendedRegionRules,
+      defaultRegionBehavior: 'notice',
+    }));
+  }, []);
+
+  const handleReopenWidgetChange = useCallback((update: Partial<ReopenWidget>) => {
+    setSettings(prev => ({
+      ...prev,
+      reopenWidget: { ...prev.reopenWidget, ...update },
+    }));
+  }, []);
+
+  const handleStorageChange = useCallback((update: Partial<ConsentStorageSettings>) => {
+    setSettings(prev => ({
+      ...prev,
+      storage: { ...prev.storage, ...update },
+    }));
+  }, []);
+
+  const handleLabelChange = useCallback((key: PopupLabelKey, value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      labels: { ...prev.labels, [key]: value },
+    }));
+  }, []);
+
+  const handleDisplayTriggerChange = useCallback((update: Partial<DisplayTrigger>) => {
+    setSettings(prev => ({
+      ...prev,
+      displayTrigger: { ...prev.displayTrigger, ...update },
+    }));
+  }, []);
+
+  const updateTranslation = useCallback(
+    (locale: string, update: (translation: PopupTranslation) => PopupTranslation) => {
+      setSettings(prev => ({
+        ...prev,
+        translations: {
+          ...prev.translations,
+          [locale]: update(prev.translations[locale] || emptyTranslation),
+        },
+      }));
+    },
+    []
+  );
+
+  const addTranslation = useCallback(() => {
+    const locale = newLocale.trim();
+    if (!locale) return;
+
+    updateTranslation(locale, translation => translation);
+    setTranslationLocale(locale);
+    setNewLocale('');
+  }, [newLocale, updateTranslation]);
+
+  const removeTranslation = useCallback((locale: string) => {
+    setSettings(prev => {
+      const { [locale]: _removed, ...translations } = prev.translations;
+      setTranslationLocale(Object.keys(translations)[0] || '');
+      return { ...prev, translations };
+    });
+  }, []);
+
   const dismissToast = useCallback(() => setToast(null), []);
 
   if (loading) {
@@ -180,6 +495,72 @@ export default function Settings() {
   }
 
   const isColorRestricted = restrictedFeatures.includes('custom_colors');
+  const primaryStrings = { ...defaultPopupStrings, ...settings.labels };
+  const isCustomCssRestricted = !hasPremiumSubscription || restrictedFeatures.includes('custom_css');
+
+  const renderColorField = (id: string, label: string, color: string, onChange: (color: string) => void) => (
+    <Stack vertical spacing="tight">
+      <Text variant="bodyMd" as="p">
+        {label}
+      </Text>
+      <Popover
+        active={colorPickerActive === id}
+        activator={
+          <Button
+            onClick={() => toggleColorPicker(id)}
+            disabled={isColorRestricted}
+          >
+            <div
+              style={{
+                width: 20,
+                height: 20,
+                backgroundColor: color,
+                border: '1px solid #ccc',
+                marginRight: 8,
+                display: 'inline-block',
+              }}
+            />
+            {color}
+          </Button>
+        }
+        onClose={() => toggleColorPicker(null)}
+      >
+        {/* The picker works in HSB, settings store hex strings */}
+        <ColorPicker
+          color={rgbToHsb(hexToRgb(color))}
+          onChange={(hsb) => onChange(hsbToHex(hsb))}
+        />
+      </Popover>
+    </Stack>
+  );
+
+  const layoutOptions = [
+    { label: 'Floating card', value: 'card' },
+    { label: 'Full-width bar at the top', value: 'bar-top' },
+    { label: 'Full-width bar at the bottom', value: 'bar-bottom' },
+    { label: 'Corner card, bottom left', value: 'corner-bottom-left' },
+    { label: 'Corner card, bottom right', value: 'corner-bottom-right' },
+    { label: 'Centered modal', value: 'modal' },
+  ];
+
+  const displayTriggerOptions = [
+    { label: 'As soon as the page loads', value: 'immediate' },
+    { label: 'After a delay', value: 'delay' },
+    { label: 'After scrolling', value: 'scroll' },
+    { label: 'On a later page view', value: 'page_views' },
+    { label: 'When the shopper is about to leave', value: 'exit_intent' },
+  ];
+
+  const pageRuleModeOptions = [
+    { label: 'Show only on', value: 'include' },
+    { label: 'Never show on', value: 'exclude' },
+  ];
+
+  const pageRuleMatchOptions = [
+    { label: 'Template', value: 'template' },
+    { label: 'URL', value: 'url' },
+  ];
+
   const positionOptions = [
     { label: 'Top', value: 'top' },
     { label: 'Bottom', value: 'bottom' },
@@ -187,6 +568,20 @@ export default function Settings() {
     { label: 'Right', value: 'right' },
   ];
 
+  const isBarLayout = settings.layout === 'bar-top' || settings.layout === 'bar-bottom';
+
+  const selectedTranslation = settings.translations[translationLocale];
+  const translationLocaleOptions = Object.keys(settings.translations).map(locale => ({
+    label: locale,
+    value: locale,
+  }));
+
+  const regionBehaviorOptions = [
+    { label: 'Ask for consent', value: 'banner' },
+    { label: 'Show notice only', value: 'notice' },
+    { label: 'Hide popup', value: 'hidden' },
+  ];
+
   const toastMarkup = toast ? (
     <Toast
       content={toast.content}
@@ -258,7 +653,7 @@ export default function Settings() {
                       value={settings.message}
                       onChange={(value) => setSettings(prev => ({ ...prev, message: value }))}
                       multiline={4}
-                      helpText="The message displayed in your privacy popup"
+                      helpText="The message displayed in your privacy popup. Use **bold**, *italic* and [link text](/pages/shipping); new lines start a new line."
                       showCharacterCount
                       maxLength={1000}
                     />
@@ -270,6 +665,380 @@ export default function Settings() {
                       placeholder="/pages/privacy-policy"
                       helpText="Link to your privacy policy page (absolute URL or relative path)"
                     />
+
+                    <Stack alignment="center">
+                      <Text variant="bodyMd" as="span" color="subdued">
+                        No privacy policy yet?
+                      </Text>
+                      <Button plain url={`/privacy-policy?shop=${shop}&host=${host}`}>
+                        Generate one from your store details
+                      </Button>
+                    </Stack>
+                  </Stack>
+                </Box>
+              </Card>
+
+              {/* Button Labels */}
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Text variant="headingMd" as="h3">
+                      Button Labels
+                    </Text>
+
+                    <Text variant="bodyMd" as="p" color="subdued">
+                      Text for the popup&apos;s buttons and links in your primary language. Labels set in
+                      the theme editor take precedence.
+                    </Text>
+
+                    {POPUP_LABEL_KEYS.map((key) => (
+                      <TextField
+                        key={key}
+                        label={popupStringLabels[key]}
+                        value={settings.labels[key]}
+                        onChange={(value) => handleLabelChange(key, value)}
+                        placeholder={defaultPopupLabels[key]}
+                        helpText={key === 'close' ? 'Read out by screen readers for the close (×) button' : undefined}
+                        showCharacterCount
+                        maxLength={popupLabelMaxLengths[key]}
+                      />
+                    ))}
+                  </Stack>
+                </Box>
+              </Card>
+
+              {/* Consent Categories */}
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Text variant="headingMd" as="h3">
+                      Consent Categories
+                    </Text>
+
+                    <Text variant="bodyMd" color="subdued">
+                      Shoppers can choose which of these categories to allow from the
+                      &quot;Customize&quot; view of the popup.
+                    </Text>
+
+                    {settings.categories.map((category) => (
+                      <Stack vertical spacing="tight" key={category.id}>
+                        <Checkbox
+                          label={`Show "${category.label}" category`}
+                          checked={category.enabled}
+                          disabled={category.id === 'necessary'}
+                          onChange={(value) => handleCategoryChange(category.id, { enabled: value })}
+                          helpText={category.id === 'necessary'
+                            ? 'Strictly necessary cookies are always active'
+                            : 'Shoppers can opt in or out of this category'}
+                        />
+
+                        <TextField
+                          label="Label"
+                          value={category.label}
+                          onChange={(value) => handleCategoryChange(category.id, { label: value })}
+                          disabled={!category.enabled}
+                          maxLength={50}
+                        />
+
+                        <TextField
+                          label="Description"
+                          value={category.description}
+                          onChange={(value) => handleCategoryChange(category.id, { description: value })}
+                          disabled={!category.enabled}
+                          multiline={2}
+                          showCharacterCount
+                          maxLength={500}
+                        />
+                      </Stack>
+                    ))}
+                  </Stack>
+                </Box>
+              </Card>
+
+              {/* Consent Records */}
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Text variant="headingMd" as="h3">
+                      Consent Records
+                    </Text>
+
+                    <TextField
+                      label="Remember choices for (days)"
+                      type="number"
+                      value={settings.consentLifetimeDays.toString()}
+                      onChange={(value) => setSettings(prev => ({
+                        ...prev,
+                        consentLifetimeDays: parseInt(value) || 365
+                      }))}
+                      min={1}
+                      max={730}
+                      helpText="Shoppers are asked again once their choice is older than this"
+                    />
+
+                    <Stack distribution="equalSpacing" alignment="center">
+                      <Text variant="bodyMd" as="p">
+                        Policy version {settings.consentVersion}
+                      </Text>
+                      <Button
+                        onClick={() => setSettings(prev => ({
+                          ...prev,
+                          consentVersion: prev.consentVersion + 1
+                        }))}
+                      >
+                        Ask all shoppers again
+                      </Button>
+                    </Stack>
+
+                    <Text variant="bodySm" color="subdued">
+                      Bump the policy version after changing your message or privacy policy.
+                      Every shopper will see the popup again once you save.
+                    </Text>
+
+                    <Select
+                      label="Store choices in"
+                      options={[
+                        { label: 'Browser storage (this domain only)', value: 'local_storage' },
+                        { label: 'First-party cookie', value: 'cookie' },
+                      ]}
+                      value={settings.storage.mode}
+                      onChange={(value) => handleStorageChange({ mode: value as ConsentStorageMode })}
+                      helpText="A cookie can be shared between your subdomains, such as www and checkout"
+                    />
+
+                    {settings.storage.mode === 'cookie' && (
+                      <>
+                        <TextField
+                          label="Cookie domain"
+                          value={settings.storage.cookieDomain}
+                          onChange={(value) => handleStorageChange({ cookieDomain: value })}
+                          placeholder=".example.com"
+                          helpText="Leave blank to keep the cookie on the current domain"
+                        />
+
+                        <Select
+                          label="SameSite"
+                          options={[
+                            { label: 'Lax (recommended)', value: 'Lax' },
+                            { label: 'Strict', value: 'Strict' },
+                            { label: 'None (also sent in third-party contexts)', value: 'None' },
+                          ]}
+                          value={settings.storage.sameSite}
+                          onChange={(value) => handleStorageChange({ sameSite: value as CookieSameSite })}
+                        />
+
+                        <TextField
+                          label="Cookie lifetime (days)"
+                          type="number"
+                          value={settings.storage.cookieLifetimeDays.toString()}
+                          onChange={(value) => handleStorageChange({ cookieLifetimeDays: parseInt(value) || 365 })}
+                          min={1}
+                          max={730}
+                          helpText="Choices still expire after the number of days above"
+                        />
+                      </>
+                    )}
+                  </Stack>
+                </Box>
+              </Card>
+
+              {/* Translations */}
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Text variant="headingMd" as="h3">
+                      Translations
+                    </Text>
+
+                    <Text variant="bodyMd" color="subdued">
+                      Your popup content is shown in your store&apos;s primary language ({primaryLocale}).
+                      Add a translation for each other language you sell in. Anything left empty
+                      falls back to the primary language.
+                    </Text>
+
+                    <Stack alignment="trailing">
+                      <Stack.Item fill>
+                        <TextField
+                          label="Add language"
+                          value={newLocale}
+                          onChange={setNewLocale}
+                          placeholder="fr, de, pt-BR"
+                          helpText="Use the locale code from your store's language settings"
+                        />
+                      </Stack.Item>
+                      <Button
+                        onClick={addTranslation}
+                        disabled={!newLocale.trim() || newLocale.trim() === primaryLocale}
+                      >
+                        Add
+                      </Button>
+                    </Stack>
+
+                    {translationLocaleOptions.length > 0 && (
+                      <Select
+                        label="Language"
+                        options={translationLocaleOptions}
+                        value={translationLocale}
+                        onChange={setTranslationLocale}
+                      />
+                    )}
+
+                    {selectedTranslation && (
+                      <Stack vertical spacing="tight">
+                        <TextField
+                          label="Privacy Message"
+                          value={selectedTranslation.message}
+                          onChange={(value) => updateTranslation(translationLocale, translation => ({
+                            ...translation,
+                            message: value,
+                          }))}
+                          placeholder={settings.message}
+                          multiline={3}
+                          showCharacterCount
+                          maxLength={1000}
+                        />
+
+                        {POPUP_STRING_KEYS.map((key) => (
+                          <TextField
+                            key={key}
+                            label={popupStringLabels[key]}
+                            value={selectedTranslation.strings[key] || ''}
+                            onChange={(value) => updateTranslation(translationLocale, translation => ({
+                              ...translation,
+                              strings: { ...translation.strings, [key]: value },
+                            }))}
+                            placeholder={primaryStrings[key]}
+                            maxLength={300}
+                          />
+                        ))}
+
+                        {settings.categories.filter(category => category.enabled).map((category) => (
+                          <Stack vertical spacing="extraTight" key={category.id}>
+                            <TextField
+                              label={`${category.label} label`}
+                              value={selectedTranslation.categories[category.id]?.label || ''}
+                              onChange={(value) => updateTranslation(translationLocale, translation => ({
+                                ...translation,
+                                categories: {
+                                  ...translation.categories,
+                                  [category.id]: { ...translation.categories[category.id], label: value },
+                                },
+                              }))}
+                              placeholder={category.label}
+                              maxLength={50}
+                            />
+                            <TextField
+                              label={`${category.label} description`}
+                              value={selectedTranslation.categories[category.id]?.description || ''}
+                              onChange={(value) => updateTranslation(translationLocale, translation => ({
+                                ...translation,
+                                categories: {
+                                  ...translation.categories,
+                                  [category.id]: { ...translation.categories[category.id], description: value },
+                                },
+                              }))}
+                              placeholder={category.description}
+                              multiline={2}
+                              maxLength={500}
+                            />
+                          </Stack>
+                        ))}
+
+                        <Button onClick={() => removeTranslation(translationLocale)} destructive outline>
+                          Remove {translationLocale} translation
+                        </Button>
+                      </Stack>
+                    )}
+                  </Stack>
+                </Box>
+              </Card>
+
+              {/* Display Regions */}
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Stack distribution="equalSpacing" alignment="center">
+                      <Text variant="headingMd" as="h3">
+                        Display Regions
+                      </Text>
+                      <Button plain onClick={applyRecommendedRegionRules}>
+                        Use recommended rules
+                      </Button>
+                    </Stack>
+
+                    <Text variant="bodyMd" color="subdued">
+                      Only ask for consent where the law requires it. Rules are checked in order
+                      against the visitor&apos;s country or region, and the first match wins.
+                    </Text>
+
+                    {settings.regionRules.map((rule, index) => (
+                      <Stack key={index} alignment="trailing">
+                        <Stack.Item fill>
+                          <TextField
+                            label="Regions"
+                            value={rule.regions.join(', ')}
+                            onChange={(value) => handleRegionRuleChange(index, {
+                              regions: value.split(',').map(region => region.trim().toUpperCase()),
+                            })}
+                            placeholder="EEA, GB, CH, US-CA, BR"
+                            helpText="Country codes (DE), subdivisions (US-CA) or EEA"
+                          />
+                        </Stack.Item>
+                        <Select
+                          label="Behavior"
+                          options={regionBehaviorOptions}
+                          value={rule.behavior}
+                          onChange={(value) => handleRegionRuleChange(index, {
+                            behavior: value as RegionBehavior,
+                          })}
+                        />
+                        <Button onClick={() => removeRegionRule(index)} destructive outline>
+                          Remove
+                        </Button>
+                      </Stack>
+                    ))}
+
+                    <Button onClick={addRegionRule} disabled={settings.regionRules.length >= 20}>
+                      Add rule
+                    </Button>
+
+                    <Select
+                      label="Everywhere else"
+                      options={regionBehaviorOptions}
+                      value={settings.defaultRegionBehavior}
+                      onChange={(value) => setSettings(prev => ({
+                        ...prev,
+                        defaultRegionBehavior: value as RegionBehavior,
+                      }))}
+                      helpText="Where consent is not asked for, tagged scripts run without waiting"
+                    />
+                  </Stack>
+                </Box>
+              </Card>
+
+              {/* Google Consent Mode */}
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Text variant="headingMd" as="h3">
+                      Google Consent Mode
+                    </Text>
+
+                    <Checkbox
+                      label="Enable Google Consent Mode v2"
+                      checked={consentMode.enabled}
+                      onChange={(value) => setConsentMode(prev => ({ ...prev, enabled: value }))}
+                      helpText="Sends consent signals to Google tags so Google Ads and Analytics can model conversions. Also enable the Google Consent Mode app embed in your theme editor."
+                    />
+
+                    <TextField
+                      label="Regions denied by default"
+                      value={consentModeRegions}
+                      onChange={setConsentModeRegions}
+                      disabled={!consentMode.enabled}
+                      placeholder="AT, BE, DE, FR, GB, US-CA"
+                      helpText="Comma-separated country or region codes where storage is denied until the shopper consents. Leave empty to deny everywhere."
+                    />
                   </Stack>
                 </Box>
               </Card>
@@ -283,15 +1052,36 @@ export default function Settings() {
                     </Text>
                     
                     <Select
-                      label="Position"
-                      options={positionOptions}
-                      value={settings.position}
-                      onChange={(value) => setSettings(prev => ({ 
-                        ...prev, 
-                        position: value as PopupSettings['position'] 
+                      label="Layout"
+                      options={layoutOptions}
+                      value={settings.layout}
+                      onChange={(value) => setSettings(prev => ({
+                        ...prev,
+                        layout: value as PopupLayout
                       }))}
-                      helpText="Where to position the popup on screen"
+                      helpText="Bars and corner cards leave the page usable; a modal asks for a choice first"
                     />
+
+                    {settings.layout === 'card' && (
+                      <Select
+                        label="Position"
+                        options={positionOptions}
+                        value={settings.position}
+                        onChange={(value) => setSettings(prev => ({ 
+                          ...prev, 
+                          position: value as PopupSettings['position'] 
+                        }))}
+                        helpText="Where to position the popup on screen"
+                      />
+                    )}
+
+                    {settings.layout === 'modal' && (
+                      <Checkbox
+                        label="Dim the page behind the modal"
+                        checked={settings.showBackdrop}
+                        onChange={(value) => setSettings(prev => ({ ...prev, showBackdrop: value }))}
+                      />
+                    )}
                     
                     <RangeSlider
                       label={`Maximum Width: ${settings.maxWidth}px`}
@@ -330,6 +1120,188 @@ export default function Settings() {
                       onChange={(value) => setSettings(prev => ({ ...prev, dismissible: value }))}
                       helpText="Users can close the popup and it won't show again"
                     />
+                    
+                    <Checkbox
+                      label="Show a &quot;Reject all&quot; button"
+                      checked={settings.showRejectAll}
+                      onChange={(value) => setSettings(prev => ({ ...prev, showRejectAll: value }))}
+                      helpText="Lets shoppers decline all optional cookies as easily as accepting them"
+                    />
+
+                    <Checkbox
+                      label="Honor Do Not Track"
+                      checked={settings.honorDoNotTrack}
+                      onChange={(value) => setSettings(prev => ({ ...prev, honorDoNotTrack: value }))}
+                      helpText="Global Privacy Control signals are always honored. Do Not Track is not legally binding, so honoring it is up to you."
+                    />
+                  </Stack>
+                </Box>
+              </Card>
+
+              {/* Display Trigger */}
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Text variant="headingMd" as="h3">
+                      Display Trigger
+                    </Text>
+
+                    <Select
+                      label="Show the popup"
+                      options={displayTriggerOptions}
+                      value={settings.displayTrigger.type}
+                      onChange={(value) => handleDisplayTriggerChange({ type: value as DisplayTriggerType })}
+                      helpText={settings.displayTrigger.type === 'exit_intent'
+                        ? 'Only used for informational notices. Where consent is required the popup shows right away, and touch devices use the delay below.'
+                        : 'Scripts waiting for consent stay blocked until the shopper decides'}
+                    />
+
+                    {(settings.displayTrigger.type === 'delay' || settings.displayTrigger.type === 'exit_intent') && (
+                      <TextField
+                        label="Delay (seconds)"
+                        type="number"
+                        value={String(settings.displayTrigger.delaySeconds)}
+                        onChange={(value) => handleDisplayTriggerChange({ delaySeconds: parseInt(value) || 0 })}
+                        min={0}
+                        max={300}
+                      />
+                    )}
+
+                    {settings.displayTrigger.type === 'scroll' && (
+                      <RangeSlider
+                        label={`Scroll depth: ${settings.displayTrigger.scrollPercent}%`}
+                        value={settings.displayTrigger.scrollPercent}
+                        onChange={(value) => handleDisplayTriggerChange({ scrollPercent: value as number })}
+                        min={1}
+                        max={100}
+                        step={5}
+                      />
+                    )}
+
+                    {settings.displayTrigger.type === 'page_views' && (
+                      <TextField
+                        label="Show on page view number"
+                        type="number"
+                        value={String(settings.displayTrigger.pageViews)}
+                        onChange={(value) => handleDisplayTriggerChange({ pageViews: parseInt(value) || 1 })}
+                        min={1}
+                        max={20}
+                        helpText="Counted per shopper across visits"
+                      />
+                    )}
+                  </Stack>
+                </Box>
+              </Card>
+
+              {/* Page Targeting */}
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Text variant="headingMd" as="h3">
+                      Page Targeting
+                    </Text>
+
+                    <Text variant="bodyMd" color="subdued">
+                      Keep the popup off pages like the cart or password page, or limit it to certain
+                      pages. &quot;Never show on&quot; rules always win. With any &quot;Show only on&quot;
+                      rules, the popup appears only on matching pages.
+                    </Text>
+
+                    {settings.pageRules.map((rule, index) => (
+                      <Stack key={index} alignment="trailing">
+                        <Select
+                          label="Rule"
+                          options={pageRuleModeOptions}
+                          value={rule.mode}
+                          onChange={(value) => handlePageRuleChange(index, {
+                            mode: value as PageRule['mode'],
+                          })}
+                        />
+                        <Select
+                          label="Match"
+                          options={pageRuleMatchOptions}
+                          value={rule.match}
+                          onChange={(value) => handlePageRuleChange(index, {
+                            match: value as PageRule['match'],
+                          })}
+                        />
+                        <Stack.Item fill>
+                          <TextField
+                            label={rule.match === 'template' ? 'Template name' : 'URL pattern'}
+                            value={rule.value}
+                            onChange={(value) => handlePageRuleChange(index, { value: value.trim() })}
+                            placeholder={rule.match === 'template' ? 'cart' : '/collections/sale*'}
+                            helpText={rule.match === 'template'
+                              ? 'For example index, product, collection, cart, password or page.landing'
+                              : 'A path on your store; * matches anything'}
+                            maxLength={200}
+                          />
+                        </Stack.Item>
+                        <Button onClick={() => removePageRule(index)} destructive outline>
+                          Remove
+                        </Button>
+                      </Stack>
+                    ))}
+
+                    <Button onClick={addPageRule} disabled={settings.pageRules.length >= 50}>
+                      Add rule
+                    </Button>
+                  </Stack>
+                </Box>
+              </Card>
+
+              {/* Cookie Settings Button */}
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Text variant="headingMd" as="h3">
+                      Cookie Settings Button
+                    </Text>
+
+                    <Checkbox
+                      label="Show a floating button that reopens the cookie preferences"
+                      checked={settings.reopenWidget.enabled}
+                      onChange={(checked) => handleReopenWidgetChange({ enabled: checked })}
+                      helpText="Lets shoppers change or withdraw their consent as easily as they gave it. You can also add the Cookie Settings Link block to your footer in the theme editor."
+                    />
+
+                    {settings.reopenWidget.enabled && (
+                      <>
+                        <Select
+                          label="Position"
+                          options={[
+                            { label: 'Bottom left', value: 'bottom-left' },
+                            { label: 'Bottom right', value: 'bottom-right' },
+                          ]}
+                          value={settings.reopenWidget.position}
+                          onChange={(value) => handleReopenWidgetChange({ position: value as ReopenWidgetPosition })}
+                        />
+
+                        <Select
+                          label="Show"
+                          options={[
+                            { label: 'Icon and label', value: 'icon_label' },
+                            { label: 'Icon only', value: 'icon' },
+                            { label: 'Label only', value: 'label' },
+                          ]}
+                          value={settings.reopenWidget.style}
+                          onChange={(value) => handleReopenWidgetChange({ style: value as ReopenWidgetStyle })}
+                          helpText="The label is set under Button Labels"
+                        />
+
+                        {settings.reopenWidget.style !== 'label' && (
+                          <Select
+                            label="Icon"
+                            options={[
+                              { label: 'Cookie', value: 'cookie' },
+                              { label: 'Shield', value: 'shield' },
+                            ]}
+                            value={settings.reopenWidget.icon}
+                            onChange={(value) => handleReopenWidgetChange({ icon: value as ReopenWidgetIcon })}
+                          />
+                        )}
+                      </>
+                    )}
                   </Stack>
                 </Box>
               </Card>
@@ -353,106 +1325,90 @@ export default function Settings() {
                       </Banner>
                     )}
                     
+                    <Select
+                      label="Color scheme"
+                      options={[
+                        { label: 'Custom colors', value: 'custom' },
+                        { label: 'Match theme colors', value: 'auto' },
+                      ]}
+                      value={settings.colorScheme}
+                      onChange={(value) => setSettings(prev => ({ ...prev, colorScheme: value as PopupColorScheme }))}
+                      helpText={settings.colorScheme === 'auto'
+                        ? "Uses your theme's background, text and link colors where the theme defines them, and the colors below otherwise."
+                        : undefined}
+                    />
+
                     <Stack distribution="equalSpacing">
-                      <Stack vertical spacing="tight">
-                        <Text variant="bodyMd" as="p">
-                          Background Color
-                        </Text>
-                        <Popover
-                          active={colorPickerActive === 'bgColor'}
-                          activator={
-                            <Button
-                              onClick={() => toggleColorPicker('bgColor')}
-                              disabled={isColorRestricted}
-                            >
-                              <div
-                                style={{
-                                  width: 20,
-                                  height: 20,
-                                  backgroundColor: settings.bgColor,
-                                  border: '1px solid #ccc',
-                                  marginRight: 8,
-                                  display: 'inline-block',
-                                }}
-                              />
-                              {settings.bgColor}
-                            </Button>
-                          }
-                          onClose={() => toggleColorPicker(null)}
-                        >
-                          <ColorPicker
-                            color={settings.bgColor}
-                            onChange={(color) => handleColorChange('bgColor', color)}
-                          />
-                        </Popover>
-                      </Stack>
-                      
-                      <Stack vertical spacing="tight">
-                        <Text variant="bodyMd" as="p">
-                          Text Color
-                        </Text>
-                        <Popover
-                          active={colorPickerActive === 'textColor'}
-                          activator={
-                            <Button
-                              onClick={() => toggleColorPicker('textColor')}
-                              disabled={isColorRestricted}
-                            >
-                              <div
-                                style={{
-                                  width: 20,
-                                  height: 20,
-                                  backgroundColor: settings.textColor,
-                                  border: '1px solid #ccc',
-                                  marginRight: 8,
-                                  display: 'inline-block',
-                                }}
-                              />
-                              {settings.textColor}
-                            </Button>
-                          }
-                          onClose={() => toggleColorPicker(null)}
-                        >
-                          <ColorPicker
-                            color={settings.textColor}
-                            onChange={(color) => handleColorChange('textColor', color)}
-                          />
-                        </Popover>
+                      {renderColorField('bgColor', 'Background Color', settings.bgColor, (color) => handleColorChange('bgColor', color))}
+                      {renderColorField('textColor', 'Text Color', settings.textColor, (color) => handleColorChange('textColor', color))}
+                      {renderColorField('linkColor', 'Link Color', settings.linkColor, (color) => handleColorChange('linkColor', color))}
+                    </Stack>
+
+                    <Checkbox
+                      label="Use different colors in dark mode"
+                      checked={settings.darkColors.enabled}
+                      onChange={(checked) => handleColorVariantChange('darkColors', { enabled: checked })}
+                      helpText="Applies when the shopper's device is set to a dark appearance."
+                    />
+
+                    {settings.darkColors.enabled && (
+                      <Stack distribution="equalSpacing">
+                        {renderColorField('darkColors.bgColor', 'Background Color', settings.darkColors.bgColor, (color) => handleColorVariantChange('darkColors', { bgColor: color }))}
+                        {renderColorField('darkColors.textColor', 'Text Color', settings.darkColors.textColor, (color) => handleColorVariantChange('darkColors', { textColor: color }))}
+                        {renderColorField('darkColors.linkColor', 'Link Color', settings.darkColors.linkColor, (color) => handleColorVariantChange('darkColors', { linkColor: color }))}
                       </Stack>
-                      
-                      <Stack vertical spacing="tight">
-                        <Text variant="bodyMd" as="p">
-                          Link Color
-                        </Text>
-                        <Popover
-                          active={colorPickerActive === 'linkColor'}
-                          activator={
-                            <Button
-                              onClick={() => toggleColorPicker('linkColor')}
-                              disabled={isColorRestricted}
-                            >
-                              <div
-                                style={{
-                                  width: 20,
-                                  height: 20,
-                                  backgroundColor: settings.linkColor,
-                                  border: '1px solid #ccc',
-                                  marginRight: 8,
-                                  display: 'inline-block',
-                                }}
-                              />
-                              {settings.linkColor}
-                            </Button>
-                          }
-                          onClose={() => toggleColorPicker(null)}
-                        >
-                          <ColorPicker
-                            color={settings.linkColor}
-                            onChange={(color) => handleColorChange('linkColor', color)}
-                          />
-                        </Popover>
+                    )}
+
+                    <Checkbox
+                      label="Use different colors in high contrast mode"
+                      checked={settings.highContrastColors.enabled}
+                      onChange={(checked) => handleColorVariantChange('highContrastColors', { enabled: checked })}
+                      helpText="Applies when the shopper's device asks for more contrast. Takes precedence over the dark mode colors."
+                    />
+
+                    {settings.highContrastColors.enabled && (
+                      <Stack distribution="equalSpacing">
+                        {renderColorField('highContrastColors.bgColor', 'Background Color', settings.highContrastColors.bgColor, (color) => handleColorVariantChange('highContrastColors', { bgColor: color }))}
+                        {renderColorField('highContrastColors.textColor', 'Text Color', settings.highContrastColors.textColor, (color) => handleColorVariantChange('highContrastColors', { textColor: color }))}
+                        {renderColorField('highContrastColors.linkColor', 'Link Color', settings.highContrastColors.linkColor, (color) => handleColorVariantChange('highContrastColors', { linkColor: color }))}
                       </Stack>
+                    )}
+                  </Stack>
+                </Box>
+              </Card>
+
+              {/* Custom CSS */}
+              <Card>
+                <Box padding="4">
+                  <Stack vertical spacing="loose">
+                    <Stack distribution="equalSpacing" alignment="center">
+                      <Text variant="headingMd" as="h3">
+                        Custom CSS
+                      </Text>
+                      {isCustomCssRestricted && (
+                        <Badge status="attention">Premium Feature</Badge>
+                      )}
                     </Stack>
+
+                    {isCustomCssRestricted && (
+                      <Banner status="info" title="Premium Feature">
+                        <p>Custom CSS is available with the premium plan.</p>
+                      </Banner>
+                    )}
+
+                    <TextField
+                      label="Custom CSS"
+                      labelHidden
+                      value={settings.customCss}
+                      onChange={(value) => setSettings(prev => ({ ...prev, customCss: value }))}
+                      multiline={8}
+                      monospaced
+                      disabled={isCustomCssRestricted}
+                      placeholder=".privacy-popup__button { border-radius: 999px; }"
+                      helpText="Every rule is scoped to .privacy-popup when saved. HTML, url(), @import and escapes are not allowed."
+                      showCharacterCount
+                      maxLength={10000}
+                    />
                   </Stack>
                 </Box>
               </Card>
@@ -476,22 +1432,24 @@ export default function Settings() {
                       minHeight="200px"
                       position="relative"
                     >
+                      {settings.layout === 'modal' && settings.showBackdrop && (
+                        <div
+                          style={{
+                            position: 'absolute',
+                            inset: 0,
+                            background: 'rgba(0, 0, 0, 0.5)',
+                          }}
+                        />
+                      )}
                       <div
                         style={{
                           position: 'absolute',
-                          [settings.position === 'top' ? 'top' : 
-                           settings.position === 'bottom' ? 'bottom' : 
-                           settings.position]: '10px',
-                          [settings.position === 'left' ? 'left' : 
-                           settings.position === 'right' ? 'right' : 'left']: 
-                           settings.position === 'left' || settings.position === 'right' ? '10px' : '50%',
-                          transform: settings.position === 'top' || settings.position === 'bottom' ? 
-                                   'translateX(-50%)' : 'none',
-                          maxWidth: `${settings.maxWidth}px`,
+                          ...getPreviewPlacement(settings.layout, settings.position),
+                          maxWidth: isBarLayout ? 'none' : `${settings.maxWidth}px`,
                           padding: `${settings.padding}px`,
                           backgroundColor: settings.bgColor,
                           color: settings.textColor,
-                          borderRadius: '8px',
+                          borderRadius: isBarLayout ? 0 : '8px',
                           boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
                           border: '1px solid rgba(0, 0, 0, 0.1)',
                           fontSize: '14px',
@@ -499,7 +1457,7 @@ export default function Settings() {
                         }}
                       >
                         <div style={{ marginBottom: '16px' }}>
-                          {settings.message}
+                          <span dangerouslySetInnerHTML={{ __html: renderMessageMarkdown(settings.message) }} />
                           {settings.linkUrl && (
                             <>
                               {' '}
@@ -511,7 +1469,7 @@ export default function Settings() {
                                 }}
                                 onClick={(e) => e.preventDefault()}
                               >
-                                Learn more
+                                {primaryStrings.learnMore}
                               </a>
                             </>
                           )}
@@ -528,7 +1486,35 @@ export default function Settings() {
                               cursor: 'pointer',
                             }}
                           >
-                            Accept
+                            {primaryStrings.accept}
+                          </button>
+                          {settings.showRejectAll && (
+                            <button
+                              style={{
+                                background: settings.linkColor,
+                                color: 'white',
+                                border: 'none',
+                                padding: '8px 16px',
+                                borderRadius: '4px',
+                                fontSize: '13px',
+                                cursor: 'pointer',
+                              }}
+                            >
+                              {primaryStrings.reject}
+                            </button>
+                          )}
+                          <button
+                            style={{
+                              background: 'transparent',
+                              color: settings.textColor,
+                              border: '1px solid rgba(0, 0, 0, 0.2)',
+                              padding: '8px 16px',
+                              borderRadius: '4px',
+                              fontSize: '13px',
+                              cursor: 'pointer',
+                            }}
+                          >
+                            {primaryStrings.customize}
                           </button>
                           {settings.dismissible && (
                             <button
@@ -542,7 +1528,7 @@ export default function Settings() {
                                 cursor: 'pointer',
                               }}
                             >
-                              Dismiss
+                              {primaryStrings.dismiss}
                             </button>
                           )}
                         </div>
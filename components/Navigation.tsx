@@ -1,7 +1,7 @@
 'use client';
 
 import { Navigation as PolarisNavigation } from '@shopify/polaris';
-import { HomeIcon, SettingsIcon, CreditCardIcon, DocumentIcon } from '@shopify/polaris-icons';
+import { HomeIcon, SettingsIcon, SearchIcon, ListBulletedIcon, CreditCardIcon, DocumentIcon } from '@shopify/polaris-icons';
 import { usePathname, useSearchParams } from 'next/navigation';
 import { useMemo } from 'react';
 
@@ -32,6 +32,18 @@ export default function Navigation() {
       icon: SettingsIcon,
       selected: pathname === '/settings',
     },
+    {
+      url: `/scanner?${queryString}`,
+      label: 'Cookie Scanner',
+      icon: SearchIcon,
+      selected: pathname === '/scanner',
+    },
+    {
+      url: `/cookies?${queryString}`,
+      label: 'Cookie Declaration',
+      icon: ListBulletedIcon,
+      selected: pathname === '/cookies',
+    },
     {
       url: `/billing?${queryString}`,
       label: 'Billing',
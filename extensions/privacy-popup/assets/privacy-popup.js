@@ -9,88 +9,933 @@
   if (window.PrivacyPopup) return;
 
   const STORAGE_KEY = 'privacy-popup-dismissed';
+  const CONSENT_KEY = 'privacy-popup-consent';
+  const VISITOR_KEY = 'privacy-popup-visitor';
+  const PAGE_VIEWS_KEY = 'privacy-popup-page-views';
+  const DAY_MS = 24 * 60 * 60 * 1000;
   const FOCUS_TRAP_SELECTOR = 'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
 
+  // Used when the merchant has not saved categories from the app admin yet
+  const DEFAULT_CATEGORIES = [
+    {
+      id: 'necessary',
+      label: 'Strictly necessary',
+      description: 'Required for the store to work, such as keeping your cart and checkout secure. These cannot be turned off.',
+      enabled: true
+    },
+    {
+      id: 'preferences',
+      label: 'Preferences',
+      description: 'Remember choices you make, such as your language or region, to give you a more personal experience.',
+      enabled: true
+    },
+    {
+      id: 'analytics',
+      label: 'Analytics',
+      description: 'Help us understand how visitors use the store so we can improve it.',
+      enabled: true
+    },
+    {
+      id: 'marketing',
+      label: 'Marketing',
+      description: 'Used to show you relevant ads and measure the performance of our campaigns.',
+      enabled: true
+    }
+  ];
+
+  // Interface text in the shop's primary language; translations override it per locale
+  const DEFAULT_STRINGS = {
+    title: 'Privacy Notice',
+    close: 'Close privacy notice',
+    accept: 'Accept',
+    reject: 'Reject all',
+    customize: 'Customize',
+    dismiss: 'Dismiss',
+    acknowledge: 'OK',
+    learnMore: 'Learn more',
+    preferencesTitle: 'Cookie preferences',
+    savePreferences: 'Save preferences',
+    back: 'Back',
+    shownAnnouncement: 'Privacy notice displayed',
+    dismissedAnnouncement: 'Privacy notice dismissed',
+    savedAnnouncement: 'Privacy preferences saved',
+    gpcAcknowledgment: "We received your browser's Global Privacy Control signal, so we won't sell or share your personal information or use it for marketing.",
+    dntAcknowledgment: "We received your browser's Do Not Track signal, so we won't use your personal information for marketing.",
+    reopen: 'Cookie settings'
+  };
+
+  // The theme editor previews the popup as a first-time visitor would see it
+  const DESIGN_MODE = !!(window.Shopify && window.Shopify.designMode);
+
+  // Consent and dismissal records go through the storage the app embeds define in
+  // snippets/consent-storage.liquid, so they follow the merchant's cookie settings.
+  // In the theme editor nothing stored is read and choices made in the preview are not kept.
+  const ConsentStorage = DESIGN_MODE ? {
+    get: () => null,
+    set: () => {},
+    remove: () => {}
+  } : window.PrivacyPopupStorage || {
+    get: key => localStorage.getItem(key),
+    set: (key, value) => localStorage.setItem(key, value),
+    remove: key => localStorage.removeItem(key)
+  };
+
+  // Strings merchants can relabel from the theme editor (data-*-label) or the app settings
+  const LABEL_KEYS = ['accept', 'reject', 'customize', 'dismiss', 'acknowledge', 'savePreferences', 'back', 'learnMore', 'close', 'reopen'];
+
+  // Show as soon as the page loads unless the merchant picked another trigger
+  const DEFAULT_DISPLAY_TRIGGER = {
+    type: 'immediate',
+    delaySeconds: 5,
+    scrollPercent: 50,
+    pageViews: 2
+  };
+
+  const DEFAULT_REOPEN_WIDGET = {
+    enabled: false,
+    position: 'bottom-left',
+    style: 'icon_label',
+    icon: 'cookie'
+  };
+
+  // Icons for the reopen button; both inherit the button's text color
+  const REOPEN_ICONS = {
+    cookie: '<path d="M12 2a10 10 0 1 0 10 10 4 4 0 0 1-5-5 4 4 0 0 1-5-5z"/><circle cx="8.5" cy="8.5" r="1"/><circle cx="15.5" cy="15.5" r="1"/><circle cx="10.5" cy="15" r="1"/>',
+    shield: '<path d="M12 2 4 5v6c0 5.2 3.4 9.6 8 11 4.6-1.4 8-5.8 8-11V5z"/><path d="m9 12 2 2 4-4"/>'
+  };
+
+  // Message Markdown: links to relative paths, anchors, http(s) and mailto only, without
+  // characters that could leave the href attribute. Mirrors lib/markdown.ts in the app.
+  const SAFE_MESSAGE_URL = /^(?:https?:\/\/|mailto:|\/(?!\/)|#)[^\s"'<>]*$/i;
+  const MESSAGE_LINK = /\[([^\]\n]+)\]\(([^)\n]*)\)/g;
+
+  // Custom properties themes commonly define for their colors, in order of preference.
+  // Used by the 'auto' color scheme; Dawn-based themes store them as "r, g, b" triplets.
+  const THEME_COLOR_PROPERTIES = {
+    bgColor: ['--color-background', '--color-base-background-1', '--color-body-background', '--color-bg'],
+    textColor: ['--color-foreground', '--color-base-text', '--color-body-text', '--color-text'],
+    linkColor: ['--color-link', '--color-base-accent-1', '--color-accent', '--color-primary']
+  };
+
+  // Region groups merchants can use in display rules, by ISO 3166-1 country code
+  const REGION_GROUPS = {
+    EEA: [
+      'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+      'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+      'IS', 'LI', 'NO'
+    ]
+  };
+
+  // How long to wait for Shopify's consent state before showing the popup anyway
+  const INTEGRATION_TIMEOUT = 1500;
+
+  // App proxy path on the storefront's own domain, signed by Shopify and forwarded to the app
+  const APP_PROXY_PATH = 'apps/privacy-popup';
+
+  /**
+   * Shopify Customer Privacy API
+   * Keeps Shopify analytics and pixels in line with the shopper's choice
+   * https://shopify.dev/docs/api/customer-privacy
+   */
+  const ShopifyCustomerPrivacy = {
+    loading: null,
+
+    load() {
+      if (this.loading) return this.loading;
+
+      this.loading = new Promise((resolve) => {
+        const shopify = window.Shopify;
+
+        if (shopify && shopify.customerPrivacy) {
+          resolve(shopify.customerPrivacy);
+        } else if (shopify && typeof shopify.loadFeatures === 'function') {
+          shopify.loadFeatures(
+            [{ name: 'consent-tracking-api', version: '0.1' }],
+            (error) => resolve(error ? null : shopify.customerPrivacy || null)
+          );
+        } else {
+          resolve(null);
+        }
+      });
+
+      return this.loading;
+    },
+
+    // Categories the visitor already decided on through Shopify, or null if undecided
+    readVisitorConsent(api) {
+      if (!api || typeof api.currentVisitorConsent !== 'function') return null;
+
+      const consent = api.currentVisitorConsent() || {};
+      const decided = ['analytics', 'marketing', 'preferences']
+        .every(key => consent[key] === 'yes' || consent[key] === 'no');
+      if (!decided) return null;
+
+      return {
+        preferences: consent.preferences === 'yes',
+        analytics: consent.analytics === 'yes',
+        marketing: consent.marketing === 'yes'
+      };
+    },
+
+    getVisitorConsent() {
+      return this.load().then(api => this.readVisitorConsent(api));
+    },
+
+    sync(record) {
+      // Shopify applies its own regional defaults where consent is implied
+      if (record.action === 'implied') return;
+
+      return this.load().then(api => {
+        if (!api || typeof api.setTrackingConsent !== 'function') return;
+
+        const categories = record.categories;
+        const current = this.readVisitorConsent(api);
+        if (current && ['preferences', 'analytics', 'marketing']
+          .every(key => current[key] === !!categories[key])) {
+          return;
+        }
+
+        api.setTrackingConsent({
+          analytics: !!categories.analytics,
+          marketing: !!categories.marketing,
+          preferences: !!categories.preferences,
+          sale_of_data: !!categories.marketing
+        }, (result) => {
+          if (result && result.error) {
+            console.warn('Privacy Popup: Shopify rejected the tracking consent', result.error);
+          }
+        });
+      });
+    }
+  };
+
+  /**
+   * Consent-gated scripts and iframes
+   * Third-party tags stay inert until the shopper consents to their category:
+   *   <script type="text/plain" data-consent-category="marketing" src="..."></script>
+   *   <iframe data-consent-category="marketing" data-src="..."></iframe>
+   */
+  const ConsentGate = {
+    SELECTOR: 'script[type="text/plain"][data-consent-category], iframe[data-consent-category][data-src]',
+
+    sync(record) {
+      this.activate(category => category === 'necessary' || !!record.categories[category]);
+    },
+
+    activate(isAllowed) {
+      document.querySelectorAll(this.SELECTOR).forEach(element => {
+        if (!isAllowed(element.dataset.consentCategory)) return;
+
+        if (element.tagName === 'SCRIPT') {
+          this.activateScript(element);
+        } else {
+          this.activateFrame(element);
+        }
+      });
+    },
+
+    // Inert scripts never run, so they are replaced with an executable copy
+    activateScript(placeholder) {
+      const script = document.createElement('script');
+
+      Array.from(placeholder.attributes).forEach(attribute => {
+        if (attribute.name !== 'type') {
+          script.setAttribute(attribute.name, attribute.value);
+        }
+      });
+      script.type = placeholder.dataset.type || 'text/javascript';
+
+      if (placeholder.src) {
+        // Keep the document order of external scripts unless they opted into async
+        script.async = placeholder.hasAttribute('async');
+      } else {
+        script.text = placeholder.text;
+      }
+
+      placeholder.parentNode.replaceChild(script, placeholder);
+    },
+
+    activateFrame(frame) {
+      frame.src = frame.dataset.src;
+      frame.removeAttribute('data-src');
+    }
+  };
+
+  /**
+   * Google Consent Mode v2
+   * Defaults are sent by the Google Consent Mode app embed before any tag runs;
+   * this keeps Google tags updated as the shopper decides.
+   */
+  const GoogleConsentMode = {
+    sync(record, settings) {
+      // Regional defaults from the consent mode embed already cover implied consent
+      if (!settings.googleConsentMode || record.action === 'implied') return;
+
+      window.dataLayer = window.dataLayer || [];
+      const gtag = window.gtag || function() { window.dataLayer.push(arguments); };
+      gtag('consent', 'update', this.getConsentState(record.categories));
+    },
+
+    getConsentState(categories) {
+      const marketing = categories.marketing ? 'granted' : 'denied';
+      return {
+        ad_storage: marketing,
+        ad_user_data: marketing,
+        ad_personalization: marketing,
+        analytics_storage: categories.analytics ? 'granted' : 'denied'
+      };
+    }
+  };
+
+  /**
+   * Consent ledger
+   * Sends each decision to the app so merchants can prove consent later.
+   * Visitors are identified only by a random ID kept in this browser.
+   */
+  const ConsentLedger = {
+    getVisitorId() {
+      let visitorId = localStorage.getItem(VISITOR_KEY);
+      if (!visitorId) {
+        visitorId = window.crypto && typeof window.crypto.randomUUID === 'function'
+          ? window.crypto.randomUUID()
+          : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+        localStorage.setItem(VISITOR_KEY, visitorId);
+      }
+      return visitorId;
+    },
+
+    record(record, region) {
+      const payload = {
+        visitorId: this.getVisitorId(),
+        action: record.action,
+        status: record.status,
+        categories: record.categories,
+        version: record.version
+      };
+      if (region) {
+        payload.region = region;
+      }
+
+      // keepalive lets the request finish if the shopper navigates away right after deciding
+      fetch(getAppProxyUrl('consent'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        keepalive: true
+      }).catch(error => console.warn('Privacy Popup: failed to record consent', error));
+    }
+  };
+
+  // Integrations notified whenever consent is recorded or restored
+  const CONSENT_INTEGRATIONS = [ConsentGate, ShopifyCustomerPrivacy, GoogleConsentMode];
+
+  // Respects the locale or market subfolder the storefront is served from
+  function getAppProxyUrl(path) {
+    const root = (window.Shopify && window.Shopify.routes && window.Shopify.routes.root) || '/';
+    return `${root}${APP_PROXY_PATH}/${path}`;
+  }
+
+  // A theme custom property value as a CSS color, or null if it is not one
+  function parseThemeColor(value) {
+    const color = (value || '').trim();
+    if (!color) return null;
+
+    if (/^\d{1,3}(\s*,\s*|\s+)\d{1,3}(\s*,\s*|\s+)\d{1,3}$/.test(color)) {
+      return `rgb(${color})`;
+    }
+
+    return window.CSS && CSS.supports('color', color) ? color : null;
+  }
+
+  // The value saved in the app admin, or the block's theme editor setting until the merchant saves one
+  function savedOr(config, key, fallback) {
+    return config[key] === undefined || config[key] === null ? fallback : config[key];
+  }
+
+  function withTimeout(promise, ms, fallback) {
+    return Promise.race([
+      promise,
+      new Promise(resolve => setTimeout(() => resolve(fallback), ms))
+    ]);
+  }
+
   class PrivacyPopup {
     constructor() {
       this.container = document.getElementById('privacy-popup-container');
       this.popup = null;
+      this.backdrop = null;
+      this.reopenButton = null;
       this.isVisible = false;
+      this.wasShown = false;
+      this.pageViews = 0;
       this.focusableElements = [];
       this.previousFocus = null;
+      this.regionBehavior = 'banner';
+      this.region = '';
+      this.impliedConsent = null;
+      this.privacySignal = null;
+      this.isSignalAcknowledgment = false;
+      this.changeListeners = [];
       
       if (!this.container) return;
       
       this.settings = this.getSettings();
+      this.strings = this.getStrings();
       this.init();
     }
 
     getSettings() {
       const dataset = this.container.dataset;
+      const config = this.getConfig();
+      const translation = this.getTranslation(config.translations);
+      const themeColors = config.colorScheme === 'auto' ? this.getThemeColors() : {};
       return {
-        message: dataset.message || '',
-        linkUrl: dataset.linkUrl || '',
-        position: dataset.position || 'bottom',
-        maxWidth: parseInt(dataset.maxWidth) || 400,
-        padding: parseInt(dataset.padding) || 20,
-        zIndex: parseInt(dataset.zIndex) || 9999,
-        dismissible: dataset.dismissible === 'true',
-        bgColor: dataset.bgColor || '#ffffff',
-        textColor: dataset.textColor || '#333333',
-        linkColor: dataset.linkColor || '#007ace'
+        message: translation.message || savedOr(config, 'message', dataset.message || ''),
+        linkUrl: savedOr(config, 'linkUrl', dataset.linkUrl || ''),
+        layout: savedOr(config, 'layout', dataset.layout || 'card'),
+        position: savedOr(config, 'position', dataset.position || 'bottom'),
+        showBackdrop: savedOr(config, 'showBackdrop', dataset.showBackdrop !== 'false'),
+        maxWidth: parseInt(savedOr(config, 'maxWidth', dataset.maxWidth)) || 400,
+        padding: parseInt(savedOr(config, 'padding', dataset.padding)) || 20,
+        zIndex: parseInt(savedOr(config, 'zIndex', dataset.zIndex)) || 9999,
+        dismissible: savedOr(config, 'dismissible', dataset.dismissible === 'true'),
+        showRejectAll: savedOr(config, 'showRejectAll', dataset.showRejectAll !== 'false'),
+        honorDoNotTrack: savedOr(config, 'honorDoNotTrack', dataset.honorDoNotTrack === 'true'),
+        bgColor: themeColors.bgColor || savedOr(config, 'bgColor', dataset.bgColor || '#ffffff'),
+        textColor: themeColors.textColor || savedOr(config, 'textColor', dataset.textColor || '#333333'),
+        linkColor: themeColors.linkColor || savedOr(config, 'linkColor', dataset.linkColor || '#007ace'),
+        darkColors: config.darkColors && config.darkColors.enabled ? config.darkColors : null,
+        highContrastColors: config.highContrastColors && config.highContrastColors.enabled ? config.highContrastColors : null,
+        categories: this.getCategories(config.categories, translation.categories),
+        labels: this.getLabels(config.labels),
+        translation,
+        googleConsentMode: dataset.googleConsentMode === 'true',
+        consentVersion: parseInt(config.consentVersion) || 1,
+        consentLifetimeDays: parseInt(config.consentLifetimeDays) || 365,
+        regionRules: Array.isArray(config.regionRules) ? config.regionRules : [],
+        defaultRegionBehavior: config.defaultRegionBehavior || 'banner',
+        displayTrigger: Object.assign({}, DEFAULT_DISPLAY_TRIGGER, config.displayTrigger),
+        pageRules: Array.isArray(config.pageRules) ? config.pageRules : [],
+        reopenWidget: Object.assign({}, DEFAULT_REOPEN_WIDGET, config.reopenWidget)
       };
     }
 
-    init() {
+    // Settings saved in the app admin, rendered by the block from an app metafield.
+    // They take precedence for shared fields; the theme editor settings on the container only
+    // apply until the merchant saves in the app. Labels are the exception, see getLabels().
+    getConfig() {
+      const configElement = document.getElementById('privacy-popup-config');
+      if (!configElement) return {};
+
+      try {
+        return JSON.parse(configElement.textContent) || {};
+      } catch (error) {
+        return {};
+      }
+    }
+
+    // Colors the theme defines as custom properties; anything it does not define is left out
+    getThemeColors() {
+      const styles = window.getComputedStyle(document.body);
+      const colors = {};
+
+      Object.keys(THEME_COLOR_PROPERTIES).forEach(key => {
+        const color = THEME_COLOR_PROPERTIES[key]
+          .map(property => parseThemeColor(styles.getPropertyValue(property)))
+          .find(Boolean);
+        if (color) {
+          colors[key] = color;
+        }
+      });
+
+      return colors;
+    }
+
+    // The stylesheet swaps in the dark and high contrast colors under the matching media queries
+    setColorProperties(element) {
+      const variants = {
+        dark: this.settings.darkColors,
+        contrast: this.settings.highContrastColors
+      };
+
+      element.style.setProperty('--popup-bg-color', this.settings.bgColor);
+      element.style.setProperty('--popup-text-color', this.settings.textColor);
+      element.style.setProperty('--popup-link-color', this.settings.linkColor);
+
+      Object.keys(variants).forEach(name => {
+        const colors = variants[name];
+        if (!colors) return;
+
+        element.classList.add(`privacy-popup-colors--${name}`);
+        element.style.setProperty(`--popup-${name}-bg-color`, colors.bgColor);
+        element.style.setProperty(`--popup-${name}-text-color`, colors.textColor);
+        element.style.setProperty(`--popup-${name}-link-color`, colors.linkColor);
+      });
+    }
+
+    // Translation for the storefront locale rendered by the block ('fr-CA', then 'fr').
+    // Anything left untranslated falls back to the shop's primary language content.
+    getTranslation(translations) {
+      const dataset = this.container.dataset;
+      if (!translations || !dataset.locale || dataset.locale === dataset.primaryLocale) {
+        return {};
+      }
+
+      const locale = dataset.locale;
+      return translations[locale] || translations[locale.split('-')[0]] || {};
+    }
+
+    // Label settings in the theme editor are blank unless the merchant fills them in to override
+    // the app's labels, so a filled-in label wins; blank ones fall through
+    getLabels(configLabels) {
+      const dataset = this.container.dataset;
+      const saved = configLabels || {};
+      const labels = {};
+
+      LABEL_KEYS.forEach(key => {
+        const label = (dataset[`${key}Label`] || '').trim() || saved[key];
+        if (label) {
+          labels[key] = label;
+        }
+      });
+
+      return labels;
+    }
+
+    getStrings() {
+      const strings = Object.assign({}, DEFAULT_STRINGS, this.settings.labels);
+      const translated = this.settings.translation.strings || {};
+
+      Object.keys(strings).forEach(key => {
+        if (translated[key]) {
+          strings[key] = translated[key];
+        }
+      });
+
+      return strings;
+    }
+
+    getCategories(categories, translatedCategories) {
+      const source = Array.isArray(categories) && categories.length > 0 ? categories : DEFAULT_CATEGORIES;
+      const translations = translatedCategories || {};
+
+      return source
+        .filter(category => category.id === 'necessary' || category.enabled)
+        .map(category => {
+          const translation = translations[category.id] || {};
+          return {
+            id: category.id,
+            label: translation.label || category.label,
+            description: translation.description || category.description || '',
+            required: category.id === 'necessary'
+          };
+        });
+    }
+
+    async init() {
+      if (DESIGN_MODE) {
+        this.bindReopenControls();
+        this.bindDesignModeEvents();
+        this.preview();
+        return;
+      }
+
+      this.pageViews = this.countPageView();
+      this.regionBehavior = await this.resolveRegionBehavior();
+      this.bindReopenControls();
+
+      // Outside regions that require opt-in, consent is implied but never stored
+      if (this.regionBehavior !== 'banner') {
+        const categories = {};
+        this.settings.categories.forEach(category => {
+          categories[category.id] = true;
+        });
+        this.impliedConsent = this.createRecord('implied', categories);
+      }
+
+      // Browser privacy signals opt the shopper out of marketing and the sale or sharing
+      // of their data without asking; they are only told the signal was honored
+      this.privacySignal = this.getPrivacySignal();
+      if (this.needsPrivacySignal(this.readRecord(CONSENT_KEY))) {
+        this.syncIntegrations(this.storeConsent(this.privacySignal, this.getSignalCategories()));
+
+        if (this.regionBehavior !== 'hidden' && this.isPageTargeted()) {
+          this.isSignalAcknowledgment = true;
+          this.createPopup();
+          this.bindEvents();
+          this.show();
+        }
+        return;
+      }
+
+      // Release tags the shopper already allowed on an earlier visit
+      ConsentGate.activate(category => this.hasConsent(category));
+
+      const consent = this.getConsent();
+      if (consent) {
+        this.syncIntegrations(consent);
+      }
+
+      // Consent is still applied on pages the popup is kept off
+      if (this.regionBehavior === 'hidden' || !this.isPageTargeted()) {
+        return;
+      }
+
+      if (this.regionBehavior === 'notice') {
+        if (!this.isDismissed()) {
+          this.display();
+        }
+        return;
+      }
+
+      // Check if the shopper already made a choice
+      if (consent) {
+        return;
+      }
+
       // Check if already dismissed
       if (this.settings.dismissible && this.isDismissed()) {
         return;
       }
 
+      // Respect a choice made through another surface, such as Shopify's own banner,
+      // unless the shopper's earlier choice here expired or predates the current policy
+      const visitorConsent = this.readRecord(CONSENT_KEY) ? null : await withTimeout(
+        ShopifyCustomerPrivacy.getVisitorConsent(),
+        INTEGRATION_TIMEOUT,
+        null
+      );
+      if (visitorConsent) {
+        this.syncIntegrations(this.storeConsent('shopify', visitorConsent));
+        return;
+      }
+
+      this.display();
+    }
+
+    // In the theme editor the popup always shows right away, whatever the region, page rules
+    // or display trigger, so merchants see their changes
+    preview() {
+      if (this.settings.reopenWidget.enabled && !this.reopenButton) {
+        this.createReopenWidget();
+      }
       this.createPopup();
       this.bindEvents();
       this.show();
     }
 
+    // The theme editor re-renders the app embed after each settings change, replacing the
+    // container and the config along with the popup inside it
+    bindDesignModeEvents() {
+      document.addEventListener('shopify:section:load', () => {
+        const container = document.getElementById('privacy-popup-container');
+        if (!container || container === this.container) return;
+
+        if (this.reopenButton) {
+          this.reopenButton.remove();
+          this.reopenButton = null;
+        }
+        this.container = container;
+        this.popup = null;
+        this.backdrop = null;
+        this.isVisible = false;
+        this.settings = this.getSettings();
+        this.strings = this.getStrings();
+        this.preview();
+      });
+
+      // Selecting the app embed brings the popup back after it was closed in the preview
+      document.addEventListener('shopify:block:select', (e) => {
+        if (this.container.contains(e.target)) {
+          this.open();
+        }
+      });
+    }
+
+    // The floating button and any [data-privacy-popup-open] link, such as the footer app block,
+    // reopen the preferences so shoppers can change or withdraw their choice
+    bindReopenControls() {
+      if (this.settings.reopenWidget.enabled && this.regionBehavior !== 'hidden') {
+        this.createReopenWidget();
+      }
+
+      document.addEventListener('click', (e) => {
+        const control = e.target.closest('[data-privacy-popup-open]');
+        if (!control) return;
+
+        e.preventDefault();
+        this.open('preferences');
+      });
+    }
+
+    createReopenWidget() {
+      const widget = this.settings.reopenWidget;
+      const label = this.escapeHtml(this.strings.reopen);
+      const icon = widget.style === 'label' ? '' :
+        `<svg class="privacy-popup-reopen__icon" viewBox="0 0 24 24" width="20" height="20" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false">${REOPEN_ICONS[widget.icon] || REOPEN_ICONS.cookie}</svg>`;
+
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = `privacy-popup-reopen privacy-popup-reopen--${widget.position}`;
+      button.setAttribute('data-privacy-popup-open', '');
+      if (widget.style === 'icon') {
+        button.setAttribute('aria-label', this.strings.reopen);
+        button.title = this.strings.reopen;
+      }
+      this.setColorProperties(button);
+      button.style.setProperty('--popup-z-index', this.settings.zIndex);
+      button.innerHTML = `${icon}${widget.style === 'icon' ? '' : `<span>${label}</span>`}`;
+
+      document.body.appendChild(button);
+      this.reopenButton = button;
+    }
+
+    // Exclude rules always win; with any include rules, only matching pages show the popup
+    isPageTargeted() {
+      const rules = this.settings.pageRules;
+      if (rules.some(rule => rule.mode === 'exclude' && this.matchesPage(rule))) {
+        return false;
+      }
+
+      const includes = rules.filter(rule => rule.mode === 'include');
+      return includes.length === 0 || includes.some(rule => this.matchesPage(rule));
+    }
+
+    // Template rules match `template.name` ('page') or the alternate template ('page.landing')
+    matchesPage(rule) {
+      if (rule.match === 'template') {
+        const template = this.container.dataset.template || '';
+        const suffix = this.container.dataset.templateSuffix;
+        return rule.value === template || (!!suffix && rule.value === `${template}.${suffix}`);
+      }
+
+      const pattern = String(rule.value || '')
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+      return new RegExp(`^${pattern}/?$`).test(this.getPagePath());
+    }
+
+    // URL patterns are written without the locale or market subfolder (/fr/collections -> /collections)
+    getPagePath() {
+      const root = (window.Shopify && window.Shopify.routes && window.Shopify.routes.root) || '/';
+      const path = window.location.pathname;
+      return root !== '/' && path.startsWith(root) ? path.slice(root.length - 1) : path;
+    }
+
+    // Builds the popup up front and shows it once the merchant's display trigger fires
+    display() {
+      this.createPopup();
+      this.bindEvents();
+      this.waitForTrigger(this.settings.displayTrigger).then(() => {
+        // The popup may have been opened and closed through reset() in the meantime
+        if (!this.wasShown) {
+          this.show();
+        }
+      });
+    }
+
+    waitForTrigger(trigger) {
+      switch (trigger.type) {
+        case 'delay':
+          return this.waitForDelay(trigger.delaySeconds);
+        case 'scroll':
+          return this.waitForScroll(trigger.scrollPercent);
+        case 'page_views':
+          // Earlier page views never show the popup
+          return this.pageViews >= trigger.pageViews ? Promise.resolve() : new Promise(() => {});
+        case 'exit_intent':
+          return this.waitForExitIntent(trigger.delaySeconds);
+        default:
+          return Promise.resolve();
+      }
+    }
+
+    waitForDelay(seconds) {
+      return new Promise(resolve => setTimeout(resolve, (parseInt(seconds) || 0) * 1000));
+    }
+
+    // Pages too short to scroll count as fully scrolled
+    waitForScroll(percent) {
+      return new Promise(resolve => {
+        const check = () => {
+          const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+          const depth = scrollable > 0 ? (window.scrollY / scrollable) * 100 : 100;
+
+          if (depth >= percent) {
+            window.removeEventListener('scroll', check);
+            resolve();
+          }
+        };
+
+        window.addEventListener('scroll', check, { passive: true });
+        check();
+      });
+    }
+
+    // Exit intent only delays informational notices; where consent is required it is asked up front.
+    // Touch devices have no pointer leaving the window, so they fall back to the delay.
+    waitForExitIntent(fallbackDelaySeconds) {
+      if (this.regionBehavior !== 'notice') {
+        return Promise.resolve();
+      }
+
+      if (!window.matchMedia || window.matchMedia('(hover: none)').matches) {
+        return this.waitForDelay(fallbackDelaySeconds);
+      }
+
+      return new Promise(resolve => {
+        const onMouseOut = (e) => {
+          if (e.relatedTarget || e.clientY > 0) return;
+
+          document.removeEventListener('mouseout', onMouseOut);
+          resolve();
+        };
+
+        document.addEventListener('mouseout', onMouseOut);
+      });
+    }
+
+    countPageView() {
+      const pageViews = (parseInt(localStorage.getItem(PAGE_VIEWS_KEY)) || 0) + 1;
+      localStorage.setItem(PAGE_VIEWS_KEY, String(pageViews));
+      return pageViews;
+    }
+
+    // Global Privacy Control is legally binding in some regions, such as California
+    // and Colorado, so it is always honored; Do Not Track only when the merchant opts in
+    getPrivacySignal() {
+      if (navigator.globalPrivacyControl === true) return 'gpc';
+
+      const doNotTrack = navigator.doNotTrack === '1' || window.doNotTrack === '1';
+      return this.settings.honorDoNotTrack && doNotTrack ? 'dnt' : null;
+    }
+
+    // A choice the shopper made while the signal was active stands, even if it allows marketing
+    needsPrivacySignal(record) {
+      if (!this.privacySignal) return false;
+      if (!record || !record.categories || !this.isRecordCurrent(record)) return true;
+
+      return record.signal !== this.privacySignal && !!record.categories.marketing;
+    }
+
+    // Keeps earlier choices for other categories; where consent is required they start opted out
+    getSignalCategories() {
+      const record = this.getConsent();
+      const categories = {};
+
+      this.settings.categories.forEach(category => {
+        categories[category.id] = record && record.action !== 'implied'
+          ? !!record.categories[category.id]
+          : this.regionBehavior !== 'banner';
+      });
+      categories.marketing = false;
+
+      return categories;
+    }
+
+    // Display rules are matched against 'CC' or 'CC-SUB' codes and REGION_GROUPS names.
+    // The first matching rule wins; visitors matching none get the default behavior.
+    async resolveRegionBehavior() {
+      const rules = this.settings.regionRules;
+      if (rules.length === 0) {
+        return this.settings.defaultRegionBehavior;
+      }
+
+      const region = await this.resolveRegion();
+      this.region = region;
+      const country = region.split('-')[0];
+      const rule = rules.find(candidate => (candidate.regions || []).some(code =>
+        code === region || code === country || (REGION_GROUPS[code] || []).includes(country)
+      ));
+
+      return rule ? rule.behavior : this.settings.defaultRegionBehavior;
+    }
+
+    // Shopify geolocates the visitor (e.g. 'USCA'); the storefront's localization
+    // country rendered by the block is the fallback
+    async resolveRegion() {
+      const api = await withTimeout(ShopifyCustomerPrivacy.load(), INTEGRATION_TIMEOUT, null);
+      const region = api && typeof api.getRegion === 'function' ? (api.getRegion() || '').toUpperCase() : '';
+
+      if (/^[A-Z]{2}/.test(region)) {
+        return region.length > 2 ? `${region.slice(0, 2)}-${region.slice(2)}` : region;
+      }
+
+      return (this.container.dataset.country || '').toUpperCase();
+    }
+
+    // Bars sit alongside the page instead of blocking it, so they are not modal dialogs
+    isModal() {
+      return this.settings.layout !== 'bar-top' && this.settings.layout !== 'bar-bottom';
+    }
+
     createPopup() {
       const popup = document.createElement('div');
-      popup.className = `privacy-popup privacy-popup--${this.settings.position}`;
-      popup.setAttribute('role', 'dialog');
-      popup.setAttribute('aria-modal', 'true');
+      const variant = this.settings.layout === 'card' ? this.settings.position : this.settings.layout;
+      popup.className = `privacy-popup privacy-popup--${variant}`;
+      if (this.isModal()) {
+        popup.setAttribute('role', 'dialog');
+        popup.setAttribute('aria-modal', 'true');
+      } else {
+        popup.setAttribute('role', 'region');
+      }
       popup.setAttribute('aria-labelledby', 'privacy-popup-title');
       popup.setAttribute('aria-describedby', 'privacy-popup-content');
       popup.setAttribute('aria-hidden', 'true');
       popup.setAttribute('tabindex', '-1');
 
       // Set CSS custom properties for styling
-      popup.style.setProperty('--popup-bg-color', this.settings.bgColor);
-      popup.style.setProperty('--popup-text-color', this.settings.textColor);
-      popup.style.setProperty('--popup-link-color', this.settings.linkColor);
+      this.setColorProperties(popup);
       popup.style.setProperty('--popup-max-width', `${this.settings.maxWidth}px`);
       popup.style.setProperty('--popup-padding', `${this.settings.padding}px`);
       popup.style.setProperty('--popup-z-index', this.settings.zIndex);
 
       const closeButton = this.settings.dismissible ? 
-        `<button class="privacy-popup__close" aria-label="Close privacy notice" type="button">&times;</button>` : '';
+        `<button class="privacy-popup__close" aria-label="${this.escapeHtml(this.strings.close)}" type="button">&times;</button>` : '';
 
       const linkText = this.settings.linkUrl ? 
-        ` <a href="${this.escapeHtml(this.settings.linkUrl)}" class="privacy-popup__link" target="_blank" rel="noopener">Learn more</a>` : '';
+        ` <a href="${this.escapeHtml(this.settings.linkUrl)}" class="privacy-popup__link" target="_blank" rel="noopener">${this.escapeHtml(this.strings.learnMore)}</a>` : '';
+
+      const message = this.isSignalAcknowledgment
+        ? this.strings[`${this.privacySignal}Acknowledgment`]
+        : this.settings.message;
 
       popup.innerHTML = `
         ${closeButton}
-        <div class="privacy-popup__content" id="privacy-popup-content">
-          <p id="privacy-popup-title" class="sr-only">Privacy Notice</p>
-          ${this.escapeHtml(this.settings.message)}${linkText}
+        <p id="privacy-popup-title" class="sr-only">${this.escapeHtml(this.strings.title)}</p>
+        <div class="privacy-popup__view" data-view="notice">
+          <div class="privacy-popup__content" id="privacy-popup-content">
+            ${this.renderMessage(message)}${linkText}
+          </div>
+          <div class="privacy-popup__actions">
+            ${this.renderNoticeActions()}
+          </div>
         </div>
-        <div class="privacy-popup__actions">
-          <button class="privacy-popup__button" type="button" data-action="accept">
-            Accept
-          </button>
-          ${this.settings.dismissible ? 
-            '<button class="privacy-popup__button privacy-popup__button--secondary" type="button" data-action="dismiss">Dismiss</button>' : ''}
+        <div class="privacy-popup__view" data-view="preferences" hidden>
+          <fieldset class="privacy-popup__categories">
+            <legend class="privacy-popup__categories-title">${this.escapeHtml(this.strings.preferencesTitle)}</legend>
+            ${this.settings.categories.map(category => this.renderCategory(category)).join('')}
+          </fieldset>
+          <div class="privacy-popup__actions">
+            <button class="privacy-popup__button" type="button" data-action="save-preferences">
+              ${this.escapeHtml(this.strings.savePreferences)}
+            </button>
+            <button class="privacy-popup__button privacy-popup__button--secondary" type="button" data-action="back">
+              ${this.escapeHtml(this.strings.back)}
+            </button>
+          </div>
         </div>
       `;
 
+      if (this.settings.layout === 'modal' && this.settings.showBackdrop) {
+        const backdrop = document.createElement('div');
+        backdrop.className = 'privacy-popup-backdrop';
+        backdrop.setAttribute('aria-hidden', 'true');
+        this.container.appendChild(backdrop);
+        this.backdrop = backdrop;
+      }
+
       this.container.appendChild(popup);
       this.popup = popup;
       
@@ -98,14 +943,94 @@
       this.updateFocusableElements();
     }
 
+    renderNoticeActions() {
+      if (this.isSignalAcknowledgment) return this.renderSignalActions();
+      if (this.regionBehavior === 'notice') return this.renderNoticeOnlyActions();
+      return this.renderConsentActions();
+    }
+
+    renderConsentActions() {
+      return `
+        <button class="privacy-popup__button" type="button" data-action="accept">
+          ${this.escapeHtml(this.strings.accept)}
+        </button>
+        ${this.settings.showRejectAll ? 
+          `<button class="privacy-popup__button" type="button" data-action="reject">${this.escapeHtml(this.strings.reject)}</button>` : ''}
+        <button class="privacy-popup__button privacy-popup__button--secondary" type="button" data-action="customize">
+          ${this.escapeHtml(this.strings.customize)}
+        </button>
+        ${this.settings.dismissible ? 
+          `<button class="privacy-popup__button privacy-popup__button--secondary" type="button" data-action="dismiss">${this.escapeHtml(this.strings.dismiss)}</button>` : ''}
+      `;
+    }
+
+    // Informational notice for regions where consent is implied
+    renderNoticeOnlyActions() {
+      return `
+        <button class="privacy-popup__button" type="button" data-action="acknowledge">
+          ${this.escapeHtml(this.strings.acknowledge)}
+        </button>
+      `;
+    }
+
+    // Acknowledges an honored privacy signal; shoppers can still opt in from the preferences
+    renderSignalActions() {
+      return `
+        <button class="privacy-popup__button" type="button" data-action="acknowledge">
+          ${this.escapeHtml(this.strings.acknowledge)}
+        </button>
+        <button class="privacy-popup__button privacy-popup__button--secondary" type="button" data-action="customize">
+          ${this.escapeHtml(this.strings.customize)}
+        </button>
+      `;
+    }
+
+    renderCategory(category) {
+      const inputId = `privacy-popup-category-${category.id}`;
+      const descriptionId = `${inputId}-description`;
+      const checked = category.required || this.hasConsent(category.id) ? ' checked' : '';
+      const disabled = category.required ? ' disabled' : '';
+
+      return `
+        <div class="privacy-popup__category">
+          <input type="checkbox" class="privacy-popup__category-toggle" id="${inputId}"
+            name="${this.escapeHtml(category.id)}" aria-describedby="${descriptionId}"${checked}${disabled}>
+          <label class="privacy-popup__category-label" for="${inputId}">${this.escapeHtml(category.label)}</label>
+          <p class="privacy-popup__category-description" id="${descriptionId}">${this.escapeHtml(category.description)}</p>
+        </div>
+      `;
+    }
+
     bindEvents() {
       if (!this.popup) return;
 
       // Action buttons
       this.popup.addEventListener('click', (e) => {
-        const action = e.target.dataset.action;
-        if (action === 'accept' || action === 'dismiss') {
-          this.dismiss();
+        const button = e.target.closest('[data-action]');
+        if (!button) return;
+
+        switch (button.dataset.action) {
+          case 'accept':
+            this.acceptAll();
+            break;
+          case 'reject':
+            this.rejectAll();
+            break;
+          case 'customize':
+            this.showView('preferences');
+            break;
+          case 'save-preferences':
+            this.savePreferences();
+            break;
+          case 'back':
+            this.showView('notice');
+            break;
+          case 'dismiss':
+            this.dismiss();
+            break;
+          case 'acknowledge':
+            this.acknowledge();
+            break;
         }
       });
 
@@ -137,7 +1062,7 @@
     }
 
     handleTabKey(e) {
-      if (this.focusableElements.length === 0) return;
+      if (!this.isModal() || this.focusableElements.length === 0) return;
 
       const firstElement = this.focusableElements[0];
       const lastElement = this.focusableElements[this.focusableElements.length - 1];
@@ -157,6 +1082,19 @@
       }
     }
 
+    showView(name) {
+      if (!this.popup) return;
+
+      this.popup.querySelectorAll('[data-view]').forEach(view => {
+        view.hidden = view.dataset.view !== name;
+      });
+      this.updateFocusableElements();
+
+      if (this.focusableElements.length > 0) {
+        this.focusableElements[0].focus();
+      }
+    }
+
     updateFocusableElements() {
       if (!this.popup) return;
       
@@ -174,29 +1112,46 @@
       // Show popup
       this.container.style.display = 'block';
       this.popup.setAttribute('aria-hidden', 'false');
+      this.wasShown = true;
+      if (this.backdrop) {
+        this.backdrop.classList.add('privacy-popup-backdrop--visible');
+      }
       this.isVisible = true;
+      if (this.reopenButton) {
+        this.reopenButton.hidden = true;
+      }
 
-      // Focus management
-      requestAnimationFrame(() => {
-        if (this.focusableElements.length > 0) {
-          this.focusableElements[0].focus();
-        } else {
-          this.popup.focus();
-        }
-      });
+      // Focus management; bars leave focus where the shopper is
+      if (this.isModal()) {
+        requestAnimationFrame(() => {
+          if (this.focusableElements.length > 0) {
+            this.focusableElements[0].focus();
+          } else {
+            this.popup.focus();
+          }
+        });
+      }
 
       // Announce to screen readers
-      this.announceToScreenReader('Privacy notice displayed');
+      this.announceToScreenReader(this.strings.shownAnnouncement);
+      this.emit('shown', { layout: this.settings.layout, behavior: this.regionBehavior });
     }
 
     hide() {
       if (!this.popup || !this.isVisible) return;
 
       this.popup.setAttribute('aria-hidden', 'true');
+      if (this.backdrop) {
+        this.backdrop.classList.remove('privacy-popup-backdrop--visible');
+      }
       this.isVisible = false;
+      if (this.reopenButton) {
+        this.reopenButton.hidden = false;
+      }
 
-      // Restore focus
-      if (this.previousFocus && typeof this.previousFocus.focus === 'function') {
+      // Restore focus if it was moved into the popup
+      const hadFocus = this.isModal() || this.popup.contains(document.activeElement);
+      if (hadFocus && this.previousFocus && typeof this.previousFocus.focus === 'function') {
         this.previousFocus.focus();
       }
 
@@ -208,14 +1163,165 @@
 
     dismiss() {
       if (this.settings.dismissible) {
-        localStorage.setItem(STORAGE_KEY, 'true');
+        ConsentStorage.set(STORAGE_KEY, JSON.stringify({
+          version: this.settings.consentVersion,
+          timestamp: new Date().toISOString()
+        }));
       }
       this.hide();
-      this.announceToScreenReader('Privacy notice dismissed');
+      this.announceToScreenReader(this.strings.dismissedAnnouncement);
+      this.emit('dismissed', { action: 'dismiss' });
+    }
+
+    // Notices are acknowledged once, whether or not the popup is dismissible
+    acknowledge() {
+      ConsentStorage.set(STORAGE_KEY, JSON.stringify({
+        version: this.settings.consentVersion,
+        timestamp: new Date().toISOString()
+      }));
+      this.hide();
+      this.announceToScreenReader(this.strings.dismissedAnnouncement);
+      this.emit('dismissed', { action: 'acknowledge' });
     }
 
     isDismissed() {
-      return localStorage.getItem(STORAGE_KEY) === 'true';
+      return this.isRecordCurrent(this.readRecord(STORAGE_KEY));
+    }
+
+    readRecord(key) {
+      try {
+        const record = JSON.parse(ConsentStorage.get(key));
+        return record && typeof record === 'object' ? record : null;
+      } catch (error) {
+        return null;
+      }
+    }
+
+    // Records expire after the configured lifetime or when the merchant bumps the policy version
+    isRecordCurrent(record) {
+      if (!record || record.version !== this.settings.consentVersion) return false;
+
+      const age = Date.now() - Date.parse(record.timestamp);
+      return age >= 0 && age < this.settings.consentLifetimeDays * DAY_MS;
+    }
+
+    acceptAll() {
+      const categories = {};
+      this.settings.categories.forEach(category => {
+        categories[category.id] = true;
+      });
+      this.saveConsent('accept_all', categories);
+    }
+
+    rejectAll() {
+      const categories = {};
+      this.settings.categories.forEach(category => {
+        categories[category.id] = false;
+      });
+      this.saveConsent('reject_all', categories);
+    }
+
+    savePreferences() {
+      const categories = {};
+      this.popup.querySelectorAll('.privacy-popup__category-toggle').forEach(toggle => {
+        categories[toggle.name] = toggle.checked;
+      });
+      this.saveConsent('custom', categories);
+    }
+
+    saveConsent(action, categories) {
+      const record = this.storeConsent(action, categories);
+      this.syncIntegrations(record);
+      this.hide();
+      this.announceToScreenReader(this.strings.savedAnnouncement);
+    }
+
+    storeConsent(action, categories) {
+      const record = this.createRecord(action, categories);
+      if (DESIGN_MODE) return record;
+
+      ConsentStorage.set(CONSENT_KEY, JSON.stringify(record));
+      ConsentLedger.record(record, this.region || (this.container.dataset.country || '').toUpperCase());
+      this.notifyChange(record);
+      return record;
+    }
+
+    // Tells onChange() callbacks and privacy-popup:consent listeners about a new decision.
+    // Once the stored decision is cleared, they get getConsent() instead: implied consent or null.
+    notifyChange(consent) {
+      this.changeListeners.forEach(callback => {
+        try {
+          callback(consent);
+        } catch (error) {
+          console.warn('Privacy Popup: consent change listener failed', error);
+        }
+      });
+      this.emit('consent', { consent });
+    }
+
+    emit(name, detail) {
+      document.dispatchEvent(new CustomEvent(`privacy-popup:${name}`, { detail }));
+    }
+
+    createRecord(action, categories) {
+      const record = {
+        version: this.settings.consentVersion,
+        timestamp: new Date().toISOString(),
+        action,
+        status: this.getConsentStatus(action, categories),
+        categories: Object.assign({}, categories, { necessary: true })
+      };
+
+      // Records made while a privacy signal is active say so, for the signal check on later visits
+      if (this.privacySignal) {
+        record.signal = this.privacySignal;
+      }
+
+      return record;
+    }
+
+    // 'granted' or 'denied' when every optional category agrees, 'partial' otherwise.
+    // Reject all is always a denial, even when the merchant turned off every optional category.
+    getConsentStatus(action, categories) {
+      if (action === 'reject_all') return 'denied';
+
+      const optional = Object.keys(categories)
+        .filter(id => id !== 'necessary')
+        .map(id => !!categories[id]);
+
+      if (optional.every(granted => granted)) return 'granted';
+      if (optional.every(granted => !granted)) return 'denied';
+      return 'partial';
+    }
+
+    syncIntegrations(record) {
+      if (DESIGN_MODE) return;
+
+      CONSENT_INTEGRATIONS.forEach(integration => {
+        Promise.resolve()
+          .then(() => integration.sync(record, this.settings))
+          .catch(error => console.warn('Privacy Popup: failed to sync consent', error));
+      });
+    }
+
+    getConsent() {
+      const record = this.readRecord(CONSENT_KEY);
+      if (record && record.categories && this.isRecordCurrent(record)) {
+        return record;
+      }
+      return this.impliedConsent || null;
+    }
+
+    hasRejectedAll() {
+      const consent = this.getConsent();
+      return !!consent && consent.status === 'denied';
+    }
+
+    hasConsent(category) {
+      if (category === 'necessary') return true;
+
+      const consent = this.getConsent();
+      return !!(consent && consent.categories[category]);
     }
 
     announceToScreenReader(message) {
@@ -232,6 +1338,32 @@
       }, 1000);
     }
 
+    // Limited Markdown for the message: **bold**, *italic*, [text](url) and line breaks.
+    // Everything else is escaped; links with an unsafe URL keep only their text.
+    renderMessage(text) {
+      return String(text || '').split(/\r?\n/).map(line => {
+        let html = '';
+        let last = 0;
+
+        for (const match of line.matchAll(MESSAGE_LINK)) {
+          const [source, label, url] = match;
+          html += this.renderEmphasis(line.slice(last, match.index));
+          html += SAFE_MESSAGE_URL.test(url)
+            ? `<a href="${this.escapeHtml(url)}" class="privacy-popup__link" target="_blank" rel="noopener">${this.renderEmphasis(label)}</a>`
+            : this.renderEmphasis(label);
+          last = match.index + source.length;
+        }
+
+        return html + this.renderEmphasis(line.slice(last));
+      }).join('<br>');
+    }
+
+    renderEmphasis(text) {
+      return this.escapeHtml(text)
+        .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+        .replace(/\*([^*\n]+)\*/g, '<em>$1</em>');
+    }
+
     escapeHtml(text) {
       const div = document.createElement('div');
       div.textContent = text;
@@ -239,20 +1371,68 @@
     }
 
     // Public API
+
+    // Calls `callback` with the new consent record whenever the shopper's decision changes.
+    // Returns a function that removes the callback.
+    onChange(callback) {
+      if (typeof callback !== 'function') return () => {};
+
+      this.changeListeners.push(callback);
+      return () => {
+        this.changeListeners = this.changeListeners.filter(listener => listener !== callback);
+      };
+    }
+
+    // Shows the popup again without clearing the stored decision, e.g. from a "Cookie settings" link.
+    // Pass 'preferences' to open straight into the category choices.
+    open(view) {
+      if (!this.container) return;
+
+      if (!this.popup) {
+        this.createPopup();
+        this.bindEvents();
+      }
+      if (!this.isVisible) {
+        this.show();
+      }
+      if (view === 'preferences') {
+        this.syncPreferenceToggles();
+        this.showView('preferences');
+      }
+    }
+
+    // The popup may have been built before the current choice was made
+    syncPreferenceToggles() {
+      this.popup.querySelectorAll('.privacy-popup__category-toggle').forEach(toggle => {
+        toggle.checked = toggle.disabled || this.hasConsent(toggle.name);
+      });
+    }
+
     destroy() {
       if (this.popup) {
         this.hide();
         this.popup.remove();
         this.popup = null;
       }
+      if (this.backdrop) {
+        this.backdrop.remove();
+        this.backdrop = null;
+      }
+      if (this.reopenButton) {
+        this.reopenButton.remove();
+        this.reopenButton = null;
+      }
       this.isVisible = false;
     }
 
     reset() {
-      localStorage.removeItem(STORAGE_KEY);
-      if (!this.isVisible) {
-        this.show();
+      const hadConsent = !!this.readRecord(CONSENT_KEY);
+      ConsentStorage.remove(STORAGE_KEY);
+      ConsentStorage.remove(CONSENT_KEY);
+      if (hadConsent) {
+        this.notifyChange(this.getConsent());
       }
+      this.open();
     }
   }
 
@@ -273,13 +1453,19 @@
   `;
   document.head.appendChild(style);
 
+  // Scripts that load before the popup can wait for privacy-popup:ready
+  function start() {
+    window.PrivacyPopup = new PrivacyPopup();
+    document.dispatchEvent(new CustomEvent('privacy-popup:ready', {
+      detail: { api: window.PrivacyPopup }
+    }));
+  }
+
   // Initialize when DOM is ready
   if (document.readyState === 'loading') {
-    document.addEventListener('DOMContentLoaded', () => {
-      window.PrivacyPopup = new PrivacyPopup();
-    });
+    document.addEventListener('DOMContentLoaded', start);
   } else {
-    window.PrivacyPopup = new PrivacyPopup();
+    start();
   }
 
   // Expose reset function for admin integration
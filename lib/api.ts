@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shopify } from '@/lib/shopify';
+import { db } from '@/lib/db';
+
+// Loads the session and shop for an admin request, or the error response to return
+export async function getShopForRequest(request: NextRequest) {
+  const url = new URL(request.url);
+  const shop = url.searchParams.get('shop');
+
+  if (!shop) {
+    return {
+      error: NextResponse.json(
+        { error: 'Missing shop parameter' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  // Get session
+  const sessionId = shopify.session.getOfflineId(shop);
+  const session = await shopify.config.sessionStorage.loadSession(sessionId);
+
+  if (!session) {
+    return {
+      error: NextResponse.json(
+        { error: 'No active session found' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  // Get shop from database
+  const shopRecord = await db.findShopByDomain(shop);
+  if (!shopRecord) {
+    return {
+      error: NextResponse.json(
+        { error: 'Shop not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { session, shopRecord };
+}
@@ -0,0 +1,232 @@
+import type {
+  ConsentCategory,
+  ConsentCategoryId,
+  ConsentModeSettings,
+  ConsentStorageMode,
+  ConsentStorageSettings,
+  CookieSameSite,
+  DisplayTrigger,
+  DisplayTriggerType,
+  PopupColorScheme,
+  PopupColorVariant,
+  PopupLabelKey,
+  PopupLabels,
+  PopupLayout,
+  PopupSettings,
+  PopupStringKey,
+  PopupStrings,
+  RegionBehavior,
+  RegionRule,
+  ReopenWidget,
+  ReopenWidgetIcon,
+  ReopenWidgetPosition,
+  ReopenWidgetStyle,
+} from '@/types';
+
+export const CONSENT_CATEGORY_IDS: [ConsentCategoryId, ...ConsentCategoryId[]] = [
+  'necessary',
+  'preferences',
+  'analytics',
+  'marketing',
+];
+
+export const POPUP_LAYOUTS: [PopupLayout, ...PopupLayout[]] = [
+  'card',
+  'bar-top',
+  'bar-bottom',
+  'corner-bottom-left',
+  'corner-bottom-right',
+  'modal',
+];
+
+export const DISPLAY_TRIGGER_TYPES: [DisplayTriggerType, ...DisplayTriggerType[]] = [
+  'immediate',
+  'delay',
+  'scroll',
+  'page_views',
+  'exit_intent',
+];
+
+export const REOPEN_WIDGET_POSITIONS: [ReopenWidgetPosition, ...ReopenWidgetPosition[]] = ['bottom-left', 'bottom-right'];
+
+export const REOPEN_WIDGET_STYLES: [ReopenWidgetStyle, ...ReopenWidgetStyle[]] = ['icon', 'label', 'icon_label'];
+
+export const REOPEN_WIDGET_ICONS: [ReopenWidgetIcon, ...ReopenWidgetIcon[]] = ['cookie', 'shield'];
+
+export const POPUP_COLOR_SCHEMES: [PopupColorScheme, ...PopupColorScheme[]] = ['custom', 'auto'];
+
+export const CONSENT_STORAGE_MODES: [ConsentStorageMode, ...ConsentStorageMode[]] = ['local_storage', 'cookie'];
+
+export const COOKIE_SAME_SITE_VALUES: [CookieSameSite, ...CookieSameSite[]] = ['Lax', 'Strict', 'None'];
+
+export const REGION_BEHAVIORS: [RegionBehavior, ...RegionBehavior[]] = ['banner', 'notice', 'hidden'];
+
+// Region groups accepted in display rules alongside ISO country and subdivision codes
+export const REGION_GROUPS = ['EEA'];
+
+// Regions with opt-in privacy laws: EU/EEA, UK, Switzerland, California and Brazil
+export const recommendedRegionRules: RegionRule[] = [
+  {
+    regions: ['EEA', 'GB', 'CH', 'US-CA', 'BR'],
+    behavior: 'banner',
+  },
+];
+
+// Storefront interface text in the shop's primary language, as rendered by privacy-popup.js
+export const defaultPopupStrings: PopupStrings = {
+  title: 'Privacy Notice',
+  close: 'Close privacy notice',
+  accept: 'Accept',
+  reject: 'Reject all',
+  customize: 'Customize',
+  dismiss: 'Dismiss',
+  acknowledge: 'OK',
+  learnMore: 'Learn more',
+  preferencesTitle: 'Cookie preferences',
+  savePreferences: 'Save preferences',
+  back: 'Back',
+  shownAnnouncement: 'Privacy notice displayed',
+  dismissedAnnouncement: 'Privacy notice dismissed',
+  savedAnnouncement: 'Privacy preferences saved',
+  gpcAcknowledgment: "We received your browser's Global Privacy Control signal, so we won't sell or share your personal information or use it for marketing.",
+  dntAcknowledgment: "We received your browser's Do Not Track signal, so we won't use your personal information for marketing.",
+  reopen: 'Cookie settings',
+};
+
+export const POPUP_STRING_KEYS = Object.keys(defaultPopupStrings) as [PopupStringKey, ...PopupStringKey[]];
+
+// Maximum length of each label; the close label is only read out by screen readers
+export const popupLabelMaxLengths: Record<PopupLabelKey, number> = {
+  accept: 40,
+  reject: 40,
+  customize: 40,
+  dismiss: 40,
+  acknowledge: 40,
+  savePreferences: 40,
+  back: 40,
+  learnMore: 60,
+  close: 100,
+  reopen: 40,
+};
+
+export const POPUP_LABEL_KEYS = Object.keys(popupLabelMaxLengths) as [PopupLabelKey, ...PopupLabelKey[]];
+
+export const defaultPopupLabels: PopupLabels = {
+  accept: defaultPopupStrings.accept,
+  reject: defaultPopupStrings.reject,
+  customize: defaultPopupStrings.customize,
+  dismiss: defaultPopupStrings.dismiss,
+  acknowledge: defaultPopupStrings.acknowledge,
+  savePreferences: defaultPopupStrings.savePreferences,
+  back: defaultPopupStrings.back,
+  learnMore: defaultPopupStrings.learnMore,
+  close: defaultPopupStrings.close,
+  reopen: defaultPopupStrings.reopen,
+};
+
+// Default consent categories shown in the storefront preference center
+export const defaultConsentCategories: ConsentCategory[] = [
+  {
+    id: 'necessary',
+    label: 'Strictly necessary',
+    description: 'Required for the store to work, such as keeping your cart and checkout secure. These cannot be turned off.',
+    enabled: true,
+  },
+  {
+    id: 'preferences',
+    label: 'Preferences',
+    description: 'Remember choices you make, such as your language or region, to give you a more personal experience.',
+    enabled: true,
+  },
+  {
+    id: 'analytics',
+    label: 'Analytics',
+    description: 'Help us understand how visitors use the store so we can improve it.',
+    enabled: true,
+  },
+  {
+    id: 'marketing',
+    label: 'Marketing',
+    description: 'Used to show you relevant ads and measure the performance of our campaigns.',
+    enabled: true,
+  },
+];
+
+// Show as soon as the page loads; the other values apply once a merchant picks their trigger
+export const defaultDisplayTrigger: DisplayTrigger = {
+  type: 'immediate',
+  delaySeconds: 5,
+  scrollPercent: 50,
+  pageViews: 2,
+};
+
+// Off until the merchant turns it on; the footer link block works either way
+export const defaultReopenWidget: ReopenWidget = {
+  enabled: false,
+  position: 'bottom-left',
+  style: 'icon_label',
+  icon: 'cookie',
+};
+
+// Applied under `prefers-color-scheme: dark` once enabled
+export const defaultDarkColors: PopupColorVariant = {
+  enabled: false,
+  bgColor: '#1f1f1f',
+  textColor: '#f1f1f1',
+  linkColor: '#5fb4ff',
+};
+
+// Applied under `prefers-contrast: more` once enabled
+export const defaultHighContrastColors: PopupColorVariant = {
+  enabled: false,
+  bgColor: '#ffffff',
+  textColor: '#000000',
+  linkColor: '#0000cc',
+};
+
+// localStorage until a merchant opts into cookies; the cookie is scoped to the current host by default
+export const defaultConsentStorage: ConsentStorageSettings = {
+  mode: 'local_storage',
+  cookieDomain: '',
+  sameSite: 'Lax',
+  cookieLifetimeDays: 365,
+};
+
+// What a shop gets until it saves the settings page
+export const defaultPopupSettings: PopupSettings = {
+  message: 'We use cookies to enhance your browsing experience and analyze our traffic. By continuing to use our site, you consent to our use of cookies.',
+  linkUrl: '/pages/privacy-policy',
+  layout: 'card',
+  position: 'bottom',
+  showBackdrop: true,
+  maxWidth: 400,
+  padding: 20,
+  zIndex: 9999,
+  dismissible: true,
+  showRejectAll: true,
+  honorDoNotTrack: false,
+  bgColor: '#ffffff',
+  textColor: '#333333',
+  linkColor: '#007ace',
+  colorScheme: 'custom',
+  darkColors: defaultDarkColors,
+  highContrastColors: defaultHighContrastColors,
+  categories: defaultConsentCategories,
+  consentVersion: 1,
+  consentLifetimeDays: 365,
+  storage: defaultConsentStorage,
+  regionRules: [],
+  defaultRegionBehavior: 'banner',
+  displayTrigger: defaultDisplayTrigger,
+  pageRules: [],
+  reopenWidget: defaultReopenWidget,
+  customCss: '',
+  labels: defaultPopupLabels,
+  translations: {},
+};
+
+// Google Consent Mode is opt-in; an empty region list denies storage everywhere
+export const defaultConsentModeSettings: ConsentModeSettings = {
+  enabled: false,
+  regions: [],
+};
@@ -0,0 +1,147 @@
+// Custom CSS is rendered inside a <style> tag on every storefront page, so anything that could
+// escape the tag, run script or load remote resources is rejected outright
+const FORBIDDEN_CSS_PATTERNS = [
+  /</,
+  /\\/,
+  /@import/i,
+  /@charset/i,
+  /expression\s*\(/i,
+  /javascript:/i,
+  /behavior\s*:/i,
+  /-moz-binding/i,
+  /url\s*\(/i,
+];
+
+export const POPUP_ROOT_SELECTOR = '.privacy-popup';
+
+// Animation names are global, so custom keyframes must be prefixed to leave the theme's alone
+export const KEYFRAMES_NAME_PREFIX = 'privacy-popup-';
+
+interface CssBlock {
+  prelude: string;
+  body: string;
+}
+
+// Splits a stylesheet into its top-level `prelude { body }` blocks, or returns null if braces
+// or quotes are unbalanced. Anything outside a block is dropped.
+function splitBlocks(css: string): CssBlock[] | null {
+  const blocks: CssBlock[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let preludeStart = 0;
+  let bodyStart = 0;
+
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i];
+
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ';' && depth === 0) {
+      preludeStart = i + 1;
+    } else if (char === '{') {
+      if (depth === 0) bodyStart = i + 1;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth < 0) return null;
+      if (depth === 0) {
+        blocks.push({
+          prelude: css.slice(preludeStart, bodyStart - 1).trim(),
+          body: css.slice(bodyStart, i).trim(),
+        });
+        preludeStart = i + 1;
+      }
+    }
+  }
+
+  return depth === 0 && !quote ? blocks : null;
+}
+
+function isKeyframes(prelude: string): boolean {
+  return /^@(-webkit-)?keyframes\b/i.test(prelude);
+}
+
+function hasPopupKeyframesName(prelude: string): boolean {
+  const [, , name = ''] = prelude.match(/^@(-webkit-)?keyframes\s+(\S+)$/i) || [];
+  return name.startsWith(KEYFRAMES_NAME_PREFIX);
+}
+
+// Keyframes named outside the popup's prefix, including inside conditional groups
+function hasForeignKeyframes(blocks: CssBlock[]): boolean {
+  return blocks.some(({ prelude, body }) => {
+    if (isKeyframes(prelude)) return !hasPopupKeyframesName(prelude);
+    if (/^@(media|supports)\b/i.test(prelude)) {
+      const nested = splitBlocks(body);
+      return nested !== null && hasForeignKeyframes(nested);
+    }
+    return false;
+  });
+}
+
+function stripComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?\*\//g, '');
+}
+
+function scopeSelector(selector: string): string {
+  // A sibling combinator right after the popup itself would reach the rest of the page
+  const outline = selector.replace(/\([^)]*\)|\[[^\]]*\]/g, '');
+  if (new RegExp(`^\\${POPUP_ROOT_SELECTOR}[^\\s>~+]*\\s*[~+]`).test(outline)) {
+    return `${POPUP_ROOT_SELECTOR} ${selector}`;
+  }
+
+  // Modifiers such as .privacy-popup--modal style the popup itself
+  if (selector.startsWith(`${POPUP_ROOT_SELECTOR}--`)) {
+    return `${POPUP_ROOT_SELECTOR}${selector}`;
+  }
+  if (new RegExp(`^\\${POPUP_ROOT_SELECTOR}(?![\\w-])`).test(selector)) {
+    return selector;
+  }
+  return `${POPUP_ROOT_SELECTOR} ${selector}`;
+}
+
+function scopeBlocks(blocks: CssBlock[]): string[] {
+  return blocks.flatMap(({ prelude, body }) => {
+    if (!prelude) return [];
+
+    if (prelude.startsWith('@')) {
+      // Conditional groups are scoped rule by rule; other at-rules could affect the whole page
+      if (/^@(media|supports)\b/i.test(prelude)) {
+        const nested = splitBlocks(body);
+        return nested ? [`${prelude} {\n${scopeBlocks(nested).join('\n')}\n}`] : [];
+      }
+      return isKeyframes(prelude) && hasPopupKeyframesName(prelude) ? [`${prelude} { ${body} }`] : [];
+    }
+
+    const selectors = prelude
+      .split(',')
+      .map(selector => selector.trim())
+      .filter(Boolean)
+      .map(scopeSelector);
+
+    return [`${selectors.join(', ')} { ${body} }`];
+  });
+}
+
+/**
+ * Check custom CSS for constructs that are not allowed on the storefront
+ */
+export function isSafeCustomCss(css: string): boolean {
+  if (FORBIDDEN_CSS_PATTERNS.some(pattern => pattern.test(css))) return false;
+
+  const blocks = splitBlocks(stripComments(css));
+  return blocks !== null && !hasForeignKeyframes(blocks);
+}
+
+/**
+ * Scope every rule to the popup so custom CSS cannot restyle the rest of the storefront.
+ * Scoping is idempotent, so saved CSS can be scoped again on the next save.
+ */
+export function scopeCustomCss(css: string): string {
+  const blocks = splitBlocks(stripComments(css));
+  return blocks ? scopeBlocks(blocks).join('\n') : '';
+}
@@ -149,6 +149,26 @@ export const db = {
     });
   },
 
+  async countShops() {
+    return prisma.shop.count();
+  },
+
+  // Shops whose setting under `key` is missing or older than `before`, oldest shops first
+  async findShopsWithStaleSetting(key: string, before: Date, limit: number) {
+    return prisma.shop.findMany({
+      where: {
+        settings: {
+          none: {
+            key,
+            updatedAt: { gte: before },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+  },
+
   // Audit log operations
   async createAuditLog(data: {
     shopId: string;
@@ -200,6 +220,22 @@ export const db = {
     };
   },
 
+  // Consent ledger operations
+  async createConsentRecord(data: {
+    shopId: string;
+    visitorId: string;
+    action: string;
+    status: string;
+    categories: Record<string, boolean>;
+    version: number;
+    region?: string;
+    userAgentHash?: string;
+  }) {
+    return prisma.consentRecord.create({
+      data,
+    });
+  },
+
   // Session operations (for Shopify session storage)
   async findSession(id: string) {
     return prisma.session.findUnique({
@@ -289,6 +325,7 @@ export const db = {
   async cleanupShopData(shopId: string) {
     // Delete in order to respect foreign key constraints
     await prisma.auditLog.deleteMany({ where: { shopId } });
+    await prisma.consentRecord.deleteMany({ where: { shopId } });
     await prisma.setting.deleteMany({ where: { shopId } });
     await prisma.subscription.deleteMany({ where: { shopId } });
     await prisma.shop.delete({ where: { id: shopId } });
@@ -0,0 +1,41 @@
+import type { CookieScanResult, DeclaredCookie } from '@/types';
+
+// Settings and app metafield key the shop's cookie declaration is stored under
+export const COOKIE_DECLARATION_KEY = 'cookie_declaration';
+
+export const MAX_DECLARED_COOKIES = 200;
+
+/**
+ * Add the categorized cookies of a scan to a declaration. Cookies already declared keep the
+ * merchant's edits; uncategorized cookies are left out because they need a category first.
+ */
+export function mergeScannedCookies(
+  declared: DeclaredCookie[],
+  scan: CookieScanResult
+): { cookies: DeclaredCookie[]; added: number; skipped: number } {
+  const names = new Set(declared.map(cookie => cookie.name));
+  const cookies = [...declared];
+  let added = 0;
+  let skipped = 0;
+
+  for (const scanned of scan.cookies) {
+    if (names.has(scanned.name)) continue;
+
+    if (!scanned.category || cookies.length >= MAX_DECLARED_COOKIES) {
+      skipped++;
+      continue;
+    }
+
+    names.add(scanned.name);
+    cookies.push({
+      name: scanned.name,
+      provider: scanned.vendor || '',
+      purpose: scanned.purpose || '',
+      category: scanned.category,
+      duration: scanned.duration || '',
+    });
+    added++;
+  }
+
+  return { cookies, added, skipped };
+}
@@ -0,0 +1,67 @@
+// The popup message supports a small Markdown subset: **bold**, *italic*, [text](url) links and
+// line breaks. Everything else is escaped; the storefront script renders it the same way.
+
+// Relative paths, anchors, http(s) and mailto links, without characters that could leave the
+// href attribute. Rules out javascript:, data: and any other scheme.
+const SAFE_URL_PATTERN = /^(?:https?:\/\/|mailto:|\/(?!\/)|#)[^\s"'<>]*$/i;
+
+// Deliberately loose so malformed links are still checked, e.g. [x](javascript:alert(1))
+const LINK_PATTERN = /\[([^\]\n]+)\]\(([^)\n]*)\)/g;
+
+// Raw HTML is never rendered, so a tag is almost certainly a mistake or an injection attempt
+const HTML_TAG_PATTERN = /<[a-z!?/]/i;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function isSafeMessageUrl(url: string): boolean {
+  return SAFE_URL_PATTERN.test(url);
+}
+
+/**
+ * Whether a popup message only uses the supported Markdown, with no HTML tags or unsafe links
+ */
+export function isSafeMessageMarkdown(text: string): boolean {
+  if (HTML_TAG_PATTERN.test(text) || /javascript:/i.test(text)) {
+    return false;
+  }
+
+  return Array.from(text.matchAll(LINK_PATTERN)).every(([, , url = '']) => isSafeMessageUrl(url));
+}
+
+function renderEmphasis(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*\n]+)\*/g, '<em>$1</em>');
+}
+
+function renderLine(line: string): string {
+  let html = '';
+  let last = 0;
+
+  for (const match of Array.from(line.matchAll(LINK_PATTERN))) {
+    const [source, label = '', url = ''] = match;
+    const index = match.index ?? 0;
+
+    html += renderEmphasis(line.slice(last, index));
+    html += isSafeMessageUrl(url)
+      ? `<a href="${escapeHtml(url)}" class="privacy-popup__link" target="_blank" rel="noopener">${renderEmphasis(label)}</a>`
+      : renderEmphasis(label);
+    last = index + source.length;
+  }
+
+  return html + renderEmphasis(line.slice(last));
+}
+
+/**
+ * Render a popup message to HTML. Unsafe links keep their text and lose the link.
+ */
+export function renderMessageMarkdown(text: string): string {
+  return text.split(/\r?\n/).map(renderLine).join('<br>');
+}
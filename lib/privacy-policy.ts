@@ -0,0 +1,227 @@
+import type {
+  ConsentCategory,
+  PolicyBusinessDetails,
+  PolicyDiffLine,
+  PrivacyPolicyJurisdiction,
+  PrivacyPolicyTarget,
+  Shop,
+} from '@/types';
+
+export const PRIVACY_POLICY_TARGETS: [PrivacyPolicyTarget, ...PrivacyPolicyTarget[]] = ['page', 'shop_policy'];
+
+export const PRIVACY_POLICY_JURISDICTIONS: [PrivacyPolicyJurisdiction, ...PrivacyPolicyJurisdiction[]] = [
+  'gdpr',
+  'uk_gdpr',
+  'us',
+  'general',
+];
+
+export const PRIVACY_POLICY_TITLE = 'Privacy Policy';
+
+// Handle of the generated page, matching the default `linkUrl`
+export const PRIVACY_POLICY_PAGE_HANDLE = 'privacy-policy';
+
+// EU member states plus Iceland, Liechtenstein and Norway
+const EEA_COUNTRIES = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+  'IS', 'LI', 'NO',
+];
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function getCountryName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Business details for the policy, taken from the store details synced from Shopify
+ */
+export function getBusinessDetails(
+  shop: Pick<Shop, 'name' | 'email' | 'address1' | 'city' | 'province' | 'zip' | 'country' | 'shopifyDomain'>
+): PolicyBusinessDetails {
+  const country = (shop.country || '').toUpperCase();
+  const address = [
+    shop.address1,
+    [shop.zip, shop.city].filter(Boolean).join(' '),
+    shop.province,
+    country ? getCountryName(country) : '',
+  ].filter(Boolean).join(', ');
+
+  return {
+    name: shop.name || shop.shopifyDomain,
+    email: shop.email || '',
+    address,
+    country,
+  };
+}
+
+/**
+ * The privacy law the policy is written for, based on where the business is located
+ */
+export function detectJurisdiction(country: string): PrivacyPolicyJurisdiction {
+  if (EEA_COUNTRIES.includes(country)) return 'gdpr';
+  if (country === 'GB') return 'uk_gdpr';
+  if (country === 'US') return 'us';
+  return 'general';
+}
+
+function rightsSection(jurisdiction: PrivacyPolicyJurisdiction, email: string): string[] {
+  const contact = email
+    ? `To exercise any of these rights, email us at <a href="mailto:${escapeHtml(email)}">${escapeHtml(email)}</a>.`
+    : 'To exercise any of these rights, contact us using the details below.';
+
+  switch (jurisdiction) {
+    case 'gdpr':
+    case 'uk_gdpr': {
+      const law = jurisdiction === 'gdpr'
+        ? 'the General Data Protection Regulation (GDPR)'
+        : 'the UK General Data Protection Regulation (UK GDPR) and the Data Protection Act 2018';
+      const authority = jurisdiction === 'gdpr'
+        ? 'the data protection authority in your country'
+        : 'the Information Commissioner\'s Office (ICO)';
+
+      return [
+        '<h2>Legal bases and your rights</h2>',
+        `<p>Under ${law}, we process your personal information to perform our contract with you (fulfilling orders), to comply with legal obligations (such as tax records), for our legitimate interests (such as preventing fraud and improving the store) and, for optional cookies and marketing, with your consent.</p>`,
+        '<p>You have the right to access, correct or delete your personal information, to restrict or object to its processing, to receive it in a portable format and to withdraw your consent at any time. Withdrawing consent does not affect processing that took place before.</p>',
+        `<p>${contact} You also have the right to lodge a complaint with ${authority}.</p>`,
+      ];
+    }
+    case 'us':
+      return [
+        '<h2>Your rights</h2>',
+        '<p>Depending on where you live, including California under the California Consumer Privacy Act as amended by the CPRA, you may have the right to know what personal information we collect and how we use it, to access, correct or delete it, and to opt out of its sale or sharing for targeted advertising.</p>',
+        '<p>We do not sell your personal information for money. Cookies used for marketing may count as sharing; you can opt out in the cookie settings, and we honor the Global Privacy Control signal sent by your browser. We will not discriminate against you for exercising your rights.</p>',
+        `<p>${contact}</p>`,
+      ];
+    default:
+      return [
+        '<h2>Your rights</h2>',
+        '<p>You can ask us for a copy of the personal information we hold about you, ask us to correct or delete it, and withdraw your consent to optional cookies and marketing at any time.</p>',
+        `<p>${contact}</p>`,
+      ];
+  }
+}
+
+/**
+ * Fill the privacy policy template for a business. The HTML has one element per line so
+ * regenerated policies can be compared with diffPolicies.
+ */
+export function generatePrivacyPolicy(
+  details: PolicyBusinessDetails,
+  jurisdiction: PrivacyPolicyJurisdiction,
+  categories: ConsentCategory[],
+  date: Date = new Date()
+): string {
+  const name = escapeHtml(details.name);
+  const updated = date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+  const contactLines = [
+    `<p>${name}</p>`,
+    details.address ? `<p>${escapeHtml(details.address)}</p>` : '',
+    details.email
+      ? `<p>Email: <a href="mailto:${escapeHtml(details.email)}">${escapeHtml(details.email)}</a></p>`
+      : '',
+  ];
+
+  const lines = [
+    `<p><em>Last updated: ${updated}</em></p>`,
+    `<p>This Privacy Policy describes how ${name} ("we", "us" or "our") collects, uses and shares your personal information when you visit or make a purchase from our store.</p>`,
+    '<h2>Information we collect</h2>',
+    '<ul>',
+    '<li>Contact and order details you give us, such as your name, email address, shipping and billing address, phone number and order history.</li>',
+    '<li>Payment information, which is processed by our payment providers; we do not store full card numbers.</li>',
+    '<li>Device and usage information collected automatically, such as your IP address, browser, pages viewed and how you interact with the store.</li>',
+    '</ul>',
+    '<h2>How we use your information</h2>',
+    '<ul>',
+    '<li>To process and deliver your orders and send you related updates.</li>',
+    '<li>To provide customer support and respond to your requests.</li>',
+    '<li>To detect and prevent fraud and keep the store secure.</li>',
+    '<li>To improve our store and, with your consent, to send you marketing and show you relevant ads.</li>',
+    '</ul>',
+    '<h2>Cookies</h2>',
+    '<p>We use cookies and similar technologies in the following categories. Except for strictly necessary cookies, we only use them if you allow it, and you can change your choice at any time in the cookie settings.</p>',
+    '<ul>',
+    ...categories.map(category =>
+      `<li><strong>${escapeHtml(category.label)}:</strong> ${escapeHtml(category.description)}</li>`
+    ),
+    '</ul>',
+    '<h2>Sharing your information</h2>',
+    '<p>We share your information with service providers who help us run the store, such as Shopify, payment processors, shipping carriers and, if you consent, analytics and advertising partners. We may also disclose it where required by law or to protect our rights.</p>',
+    '<h2>Data retention</h2>',
+    '<p>We keep order information for as long as we need it for our records and to meet legal, tax and accounting obligations, and other personal information only as long as needed for the purposes described in this policy.</p>',
+    ...rightsSection(jurisdiction, details.email),
+    '<h2>Changes</h2>',
+    '<p>We may update this Privacy Policy from time to time. The date at the top shows when it was last changed.</p>',
+    '<h2>Contact us</h2>',
+    ...contactLines,
+  ];
+
+  return lines.filter(Boolean).join('\n');
+}
+
+// One line per block element, so a policy edited in Shopify still compares line by line
+function splitPolicyLines(body: string): string[] {
+  return body
+    .replace(/\s*(<(?:p|h[1-6]|ul|ol|li|div|table|tr)\b)/gi, '\n$1')
+    .replace(/(<\/(?:p|h[1-6]|ul|ol|li|div|table|tr)>)\s*/gi, '$1\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Line-by-line diff of two policies, based on the longest common subsequence
+ */
+export function diffPolicies(before: string, after: string): PolicyDiffLine[] {
+  const a = splitPolicyLines(before);
+  const b = splitPolicyLines(after);
+
+  // Flat (a.length + 1) x (b.length + 1) table; common(i, j) is the LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const table = new Array<number>((a.length + 1) * width).fill(0);
+  const common = (i: number, j: number) => table[i * width + j] ?? 0;
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? common(i + 1, j + 1) + 1
+        : Math.max(common(i + 1, j), common(i, j + 1));
+    }
+  }
+
+  const diff: PolicyDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    const removed = a[i];
+    const added = b[j];
+
+    if (removed !== undefined && removed === added) {
+      diff.push({ type: 'unchanged', text: removed });
+      i++;
+      j++;
+    } else if (removed !== undefined && (added === undefined || common(i + 1, j) >= common(i, j + 1))) {
+      diff.push({ type: 'removed', text: removed });
+      i++;
+    } else if (added !== undefined) {
+      diff.push({ type: 'added', text: added });
+      j++;
+    }
+  }
+
+  return diff;
+}
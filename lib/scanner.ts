@@ -0,0 +1,274 @@
+import { db } from '@/lib/db';
+import { findVendorByHost, findVendorCookie } from '@/lib/vendors';
+import type {
+  CookieScanResult,
+  ScannedCookie,
+  ScannedPage,
+  ScannedResource,
+  Shop,
+} from '@/types';
+
+export interface FetchedPage {
+  // Final URL after redirects
+  url: string;
+  status: number;
+  setCookies: string[];
+  html: string;
+}
+
+// Fetches one storefront page. Tests pass their own fetcher or point the default one at a
+// local fixture server instead of a real store.
+export type PageFetcher = (url: string) => Promise<FetchedPage>;
+
+export interface ScanOptions {
+  fetcher?: PageFetcher;
+  paths?: string[];
+}
+
+// Settings key the latest scan is stored under for each shop
+export const SCAN_SETTINGS_KEY = 'cookie_scan';
+
+// Templates every storefront has; apps tend to load their scripts on all of them
+export const DEFAULT_SCAN_PATHS = ['/', '/collections/all', '/cart', '/search'];
+
+// Pages are fetched in parallel and have to finish inside the 10 second function limit
+const FETCH_TIMEOUT = 7000;
+
+const SCANNER_USER_AGENT = 'PrivacyPopupCookieScanner/1.0';
+
+const DURATION_UNITS: Array<[string, number]> = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
+function getSetCookies(headers: Headers): string[] {
+  // getSetCookie() keeps cookies apart; older runtimes join them into one comma-separated header
+  const { getSetCookie } = headers as Headers & { getSetCookie?: () => string[] };
+  if (typeof getSetCookie === 'function') {
+    return getSetCookie.call(headers);
+  }
+
+  const joined = headers.get('set-cookie');
+  return joined ? joined.split(/,(?=\s*[^;=\s]+=)/) : [];
+}
+
+export const httpFetcher: PageFetcher = async (url) => {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': SCANNER_USER_AGENT,
+      Accept: 'text/html',
+    },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(FETCH_TIMEOUT),
+  });
+
+  const isHtml = (response.headers.get('content-type') || '').includes('text/html');
+
+  return {
+    url: response.url || url,
+    status: response.status,
+    setCookies: getSetCookies(response.headers),
+    html: isHtml ? await response.text() : '',
+  };
+};
+
+/**
+ * Format a cookie lifetime in seconds the way cookie declarations list it ("2 weeks")
+ */
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null) return 'Session';
+
+  for (const [unit, size] of DURATION_UNITS) {
+    if (seconds >= size) {
+      const count = Math.round(seconds / size);
+      return `${count} ${unit}${count === 1 ? '' : 's'}`;
+    }
+  }
+  return '1 minute';
+}
+
+// Name and lifetime of a Set-Cookie header, or null for malformed headers and deletions
+function parseSetCookie(header: string, now: number): { name: string; duration: string } | null {
+  const [pair = '', ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  const name = separator > 0 ? pair.slice(0, separator).trim() : '';
+  if (!name) return null;
+
+  let maxAge: number | null = null;
+  let expires: number | null = null;
+
+  for (const attribute of attributes) {
+    const [key = '', ...rest] = attribute.split('=');
+    const value = rest.join('=').trim();
+
+    switch (key.trim().toLowerCase()) {
+      case 'max-age':
+        maxAge = parseInt(value, 10);
+        break;
+      case 'expires': {
+        const timestamp = Date.parse(value);
+        if (!isNaN(timestamp)) {
+          expires = Math.round((timestamp - now) / 1000);
+        }
+        break;
+      }
+    }
+  }
+
+  // Max-Age wins over Expires; anything already expired is a deletion
+  const seconds = maxAge !== null && !isNaN(maxAge) ? maxAge : expires;
+  if (seconds !== null && seconds <= 0) return null;
+
+  return { name, duration: formatDuration(seconds) };
+}
+
+// Script and iframe sources in a page, resolved against the page URL
+function extractResources(html: string, pageUrl: string): Array<{ origin: string; type: 'script' | 'iframe' }> {
+  const resources: Array<{ origin: string; type: 'script' | 'iframe' }> = [];
+  const pattern = /<(script|iframe)\b[^>]*?\ssrc\s*=\s*["']([^"']+)["']/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    const [, tag = '', src = ''] = match;
+    try {
+      const url = new URL(src, pageUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        resources.push({ origin: url.origin, type: tag.toLowerCase() as 'script' | 'iframe' });
+      }
+    } catch {
+      // Ignore sources that are not valid URLs
+    }
+  }
+
+  return resources;
+}
+
+function addPage(pages: string[], path: string) {
+  if (!pages.includes(path)) {
+    pages.push(path);
+  }
+}
+
+/**
+ * Fetch storefront pages and collect the cookies they set and the third-party scripts and
+ * iframes they load, categorized with the built-in vendor catalog
+ */
+export async function scanStorefront(origin: string, options: ScanOptions = {}): Promise<CookieScanResult> {
+  const fetcher = options.fetcher || httpFetcher;
+  const paths = options.paths || DEFAULT_SCAN_PATHS;
+  const storefrontOrigin = new URL(origin).origin;
+  const now = Date.now();
+
+  const fetched = await Promise.all(paths.map(async (path) => {
+    try {
+      return { path, page: await fetcher(new URL(path, storefrontOrigin).toString()) };
+    } catch (error) {
+      console.error(`Cookie scan failed to fetch ${storefrontOrigin}${path}:`, error);
+      return { path, page: null };
+    }
+  }));
+
+  const pages: ScannedPage[] = [];
+  const cookies = new Map<string, ScannedCookie>();
+  const resources = new Map<string, ScannedResource>();
+  let passwordProtected = false;
+
+  fetched.forEach(({ path, page }) => {
+    pages.push({ path, status: page ? page.status : 0 });
+    if (!page) return;
+
+    // Password-protected stores answer every page with the password page
+    if (new URL(page.url).pathname.replace(/\/$/, '').endsWith('/password')) {
+      passwordProtected = true;
+    }
+
+    page.setCookies.forEach(header => {
+      const parsed = parseSetCookie(header, now);
+      if (!parsed) return;
+
+      const existing = cookies.get(parsed.name);
+      if (existing) {
+        addPage(existing.pages, path);
+        return;
+      }
+
+      const match = findVendorCookie(parsed.name);
+      cookies.set(parsed.name, {
+        name: parsed.name,
+        source: 'header',
+        vendor: match ? match.vendor.name : null,
+        category: match ? match.cookie.category : null,
+        purpose: match ? match.cookie.purpose : null,
+        duration: parsed.duration,
+        pages: [path],
+      });
+    });
+
+    extractResources(page.html, page.url).forEach(({ origin: resourceOrigin, type }) => {
+      if (resourceOrigin === storefrontOrigin) return;
+
+      const key = `${type}:${resourceOrigin}`;
+      const existing = resources.get(key);
+      if (existing) {
+        addPage(existing.pages, path);
+        return;
+      }
+
+      const vendor = findVendorByHost(new URL(resourceOrigin).hostname);
+      resources.set(key, {
+        origin: resourceOrigin,
+        type,
+        vendor: vendor ? vendor.name : null,
+        category: vendor ? vendor.category : null,
+        pages: [path],
+      });
+    });
+  });
+
+  // Vendor scripts set most of their cookies from JavaScript, which no header shows
+  resources.forEach(resource => {
+    const vendor = findVendorByHost(new URL(resource.origin).hostname);
+    vendor?.cookies.forEach(cookie => {
+      const existing = cookies.get(cookie.name);
+      if (existing) {
+        resource.pages.forEach(path => addPage(existing.pages, path));
+        return;
+      }
+
+      cookies.set(cookie.name, {
+        name: cookie.name,
+        source: 'vendor',
+        vendor: vendor.name,
+        category: cookie.category,
+        purpose: cookie.purpose,
+        duration: cookie.duration,
+        pages: [...resource.pages],
+      });
+    });
+  });
+
+  return {
+    scannedAt: new Date(now).toISOString(),
+    origin: storefrontOrigin,
+    passwordProtected,
+    pages,
+    cookies: Array.from(cookies.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    resources: Array.from(resources.values()).sort((a, b) => a.origin.localeCompare(b.origin)),
+  };
+}
+
+/**
+ * Scan a shop's primary storefront domain and store the result as the shop's latest scan
+ */
+export async function runStorefrontScan(
+  shop: Pick<Shop, 'id' | 'domain' | 'myshopifyDomain'>,
+  options: ScanOptions = {}
+): Promise<CookieScanResult> {
+  const result = await scanStorefront(`https://${shop.domain || shop.myshopifyDomain}`, options);
+  await db.updateShopSettings(shop.id, SCAN_SETTINGS_KEY, result);
+  return result;
+}
@@ -2,6 +2,8 @@ import { shopifyApi, LATEST_API_VERSION } from '@shopify/shopify-api';
 import { restResources } from '@shopify/shopify-api/rest/admin/2023-10';
 import { PrismaSessionStorage } from '@shopify/shopify-app-session-storage-prisma';
 import { prisma } from './db';
+import { PRIVACY_POLICY_PAGE_HANDLE, PRIVACY_POLICY_TITLE } from './privacy-policy';
+import type { PrivacyPolicyTarget } from '@/types';
 
 // Validate required environment variables
 const requiredEnvVars = {
@@ -250,6 +252,170 @@ export const shopifyHelpers = {
     return response.body.data.appSubscriptionCancel;
   },
 
+  /**
+   * Get the current app installation ID
+   */
+  async getAppInstallationId(session: any) {
+    const client = this.createGraphQLClient(session);
+
+    const query = `
+      query {
+        currentAppInstallation {
+          id
+        }
+      }
+    `;
+
+    const response = await client.query({ data: { query } });
+    return response.body.data.currentAppInstallation.id;
+  },
+
+  /**
+   * Set an app-owned JSON metafield, readable by the theme extension
+   * through `app.metafields.privacy_popup.<key>`
+   */
+  async setAppMetafield(session: any, key: string, value: unknown) {
+    const client = this.createGraphQLClient(session);
+    const ownerId = await this.getAppInstallationId(session);
+
+    const mutation = `
+      mutation metafieldsSet($metafields: [MetafieldsSetInput!]!) {
+        metafieldsSet(metafields: $metafields) {
+          metafields {
+            id
+            namespace
+            key
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
+
+    const variables = {
+      metafields: [
+        {
+          ownerId,
+          namespace: 'privacy_popup',
+          key,
+          type: 'json',
+          value: JSON.stringify(value),
+        },
+      ],
+    };
+
+    const response = await client.query({
+      data: { query: mutation, variables },
+    });
+
+    const { metafieldsSet } = response.body.data;
+    if (metafieldsSet.userErrors.length > 0) {
+      throw new Error(metafieldsSet.userErrors.map((error: any) => error.message).join(', '));
+    }
+
+    return metafieldsSet;
+  },
+
+  /**
+   * Get the privacy policy the generator would overwrite, or null if there is none yet
+   */
+  async getPrivacyPolicy(session: any, target: PrivacyPolicyTarget): Promise<{ body: string } | null> {
+    if (target === 'page') {
+      const client = new shopify.clients.Rest({ session });
+      const response = await client.get({
+        path: 'pages',
+        query: { handle: PRIVACY_POLICY_PAGE_HANDLE },
+      });
+      const page = response.body.pages?.[0];
+      return page ? { body: page.body_html || '' } : null;
+    }
+
+    const client = this.createGraphQLClient(session);
+    const query = `
+      query {
+        shop {
+          shopPolicies {
+            type
+            body
+          }
+        }
+      }
+    `;
+
+    const response = await client.query({ data: { query } });
+    const policy = response.body.data.shop.shopPolicies.find(
+      (shopPolicy: any) => shopPolicy.type === 'PRIVACY_POLICY'
+    );
+    return policy?.body ? { body: policy.body } : null;
+  },
+
+  /**
+   * Create or update the privacy policy page, or the shop's own privacy policy,
+   * and return its storefront path
+   */
+  async publishPrivacyPolicy(session: any, target: PrivacyPolicyTarget, body: string): Promise<string> {
+    if (target === 'page') {
+      const client = new shopify.clients.Rest({ session });
+      const existing = await client.get({
+        path: 'pages',
+        query: { handle: PRIVACY_POLICY_PAGE_HANDLE },
+      });
+      const page = existing.body.pages?.[0];
+
+      if (page) {
+        await client.put({
+          path: `pages/${page.id}`,
+          data: { page: { id: page.id, body_html: body } },
+        });
+      } else {
+        await client.post({
+          path: 'pages',
+          data: {
+            page: {
+              title: PRIVACY_POLICY_TITLE,
+              handle: PRIVACY_POLICY_PAGE_HANDLE,
+              body_html: body,
+              published: true,
+            },
+          },
+        });
+      }
+
+      return `/pages/${PRIVACY_POLICY_PAGE_HANDLE}`;
+    }
+
+    const client = this.createGraphQLClient(session);
+    const mutation = `
+      mutation shopPolicyUpdate($shopPolicy: ShopPolicyInput!) {
+        shopPolicyUpdate(shopPolicy: $shopPolicy) {
+          shopPolicy {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
+
+    const response = await client.query({
+      data: {
+        query: mutation,
+        variables: { shopPolicy: { type: 'PRIVACY_POLICY', body } },
+      },
+    });
+
+    const { userErrors } = response.body.data.shopPolicyUpdate;
+    if (userErrors.length > 0) {
+      throw new Error(userErrors.map((error: any) => error.message).join(', '));
+    }
+
+    return '/policies/privacy-policy';
+  },
+
   /**
    * Verify webhook HMAC
    */
@@ -261,6 +427,36 @@ export const shopifyHelpers = {
     return crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(signature));
   },
 
+  /**
+   * Verify app proxy request signature
+   * https://shopify.dev/docs/apps/build/online-store/display-dynamic-data#calculate-a-digital-signature
+   */
+  verifyProxySignature(query: URLSearchParams): boolean {
+    const crypto = require('crypto');
+    const signature = query.get('signature');
+    if (!signature) return false;
+
+    // Parameters are sorted by key and concatenated without separators;
+    // repeated keys have their values joined with commas
+    const params = new Map<string, string[]>();
+    query.forEach((value, key) => {
+      if (key === 'signature') return;
+      params.set(key, [...(params.get(key) || []), value]);
+    });
+    const message = Array.from(params.keys())
+      .sort()
+      .map(key => `${key}=${params.get(key)!.join(',')}`)
+      .join('');
+
+    const hmac = crypto.createHmac('sha256', process.env.SHOPIFY_API_SECRET);
+    hmac.update(message, 'utf8');
+    const hash = Buffer.from(hmac.digest('hex'));
+    const received = Buffer.from(signature);
+    // timingSafeEqual throws on buffers of different byte lengths
+    if (hash.length !== received.length) return false;
+    return crypto.timingSafeEqual(hash, received);
+  },
+
   /**
    * Register webhooks
    */
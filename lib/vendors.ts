@@ -0,0 +1,178 @@
+import type { ConsentCategoryId } from '@/types';
+
+export interface VendorCookie {
+  // Exact cookie name, or a prefix followed by `*` (`_ga_*`)
+  name: string;
+  category: ConsentCategoryId;
+  purpose: string;
+  duration: string;
+}
+
+export interface Vendor {
+  name: string;
+  category: ConsentCategoryId;
+  // Script and iframe hosts, matched together with their subdomains
+  hosts: string[];
+  cookies: VendorCookie[];
+}
+
+// Known vendors the cookie scanner recognizes. Cookies set from JavaScript never show up in
+// Set-Cookie headers, so a detected vendor script also reports the cookies it is known to set.
+export const vendorCatalog: Vendor[] = [
+  {
+    name: 'Shopify',
+    category: 'necessary',
+    hosts: ['cdn.shopify.com', 'shop.app', 'shopifysvc.com', 'shopifycdn.com'],
+    cookies: [
+      { name: '_tracking_consent', category: 'necessary', purpose: 'Stores the visitor\'s consent choices', duration: '1 year' },
+      { name: 'cart', category: 'necessary', purpose: 'Keeps the contents of the shopping cart', duration: '2 weeks' },
+      { name: 'cart_sig', category: 'necessary', purpose: 'Secures the shopping cart', duration: '2 weeks' },
+      { name: 'cart_ts', category: 'necessary', purpose: 'Secures the shopping cart', duration: '2 weeks' },
+      { name: 'cart_currency', category: 'necessary', purpose: 'Remembers the cart currency', duration: '2 weeks' },
+      { name: 'secure_customer_sig', category: 'necessary', purpose: 'Keeps customers signed in', duration: '1 year' },
+      { name: 'localization', category: 'necessary', purpose: 'Remembers the selected country and language', duration: '2 weeks' },
+      { name: 'keep_alive', category: 'necessary', purpose: 'Keeps buyer sessions alive', duration: '30 minutes' },
+      { name: '_secure_session_id', category: 'necessary', purpose: 'Secures the checkout session', duration: '24 hours' },
+      { name: '_cmp_a', category: 'necessary', purpose: 'Stores consent settings for the customer privacy API', duration: '1 day' },
+      { name: '_shopify_y', category: 'analytics', purpose: 'Identifies returning visitors for store analytics', duration: '1 year' },
+      { name: '_shopify_s', category: 'analytics', purpose: 'Groups page views into sessions for store analytics', duration: '30 minutes' },
+      { name: '_shopify_sa_p', category: 'marketing', purpose: 'Attributes visits to marketing campaigns', duration: '30 minutes' },
+      { name: '_shopify_sa_t', category: 'marketing', purpose: 'Attributes visits to marketing campaigns', duration: '30 minutes' },
+      { name: '_orig_referrer', category: 'marketing', purpose: 'Remembers the site that referred the visitor', duration: '2 weeks' },
+      { name: '_landing_page', category: 'marketing', purpose: 'Remembers the page the visitor landed on', duration: '2 weeks' },
+    ],
+  },
+  {
+    name: 'Google Analytics',
+    category: 'analytics',
+    hosts: ['google-analytics.com', 'googletagmanager.com', 'analytics.google.com'],
+    cookies: [
+      { name: '_ga', category: 'analytics', purpose: 'Distinguishes visitors', duration: '2 years' },
+      { name: '_ga_*', category: 'analytics', purpose: 'Keeps session state', duration: '2 years' },
+      { name: '_gid', category: 'analytics', purpose: 'Distinguishes visitors', duration: '24 hours' },
+      { name: '_gat', category: 'analytics', purpose: 'Throttles the request rate', duration: '1 minute' },
+    ],
+  },
+  {
+    name: 'Google Ads',
+    category: 'marketing',
+    hosts: ['googleadservices.com', 'googlesyndication.com', 'doubleclick.net'],
+    cookies: [
+      { name: '_gcl_au', category: 'marketing', purpose: 'Measures ad conversions', duration: '3 months' },
+      { name: 'IDE', category: 'marketing', purpose: 'Shows and measures personalized ads', duration: '1 year' },
+      { name: 'test_cookie', category: 'marketing', purpose: 'Checks whether the browser accepts cookies', duration: '15 minutes' },
+    ],
+  },
+  {
+    name: 'Meta Pixel',
+    category: 'marketing',
+    hosts: ['connect.facebook.net', 'facebook.com'],
+    cookies: [
+      { name: '_fbp', category: 'marketing', purpose: 'Delivers and measures Meta ads', duration: '3 months' },
+      { name: '_fbc', category: 'marketing', purpose: 'Remembers the ad click that brought the visitor', duration: '3 months' },
+    ],
+  },
+  {
+    name: 'TikTok Pixel',
+    category: 'marketing',
+    hosts: ['analytics.tiktok.com'],
+    cookies: [
+      { name: '_ttp', category: 'marketing', purpose: 'Measures and improves TikTok ads', duration: '13 months' },
+      { name: '_tt_enable_cookie', category: 'marketing', purpose: 'Checks whether cookies are enabled', duration: '13 months' },
+    ],
+  },
+  {
+    name: 'Pinterest Tag',
+    category: 'marketing',
+    hosts: ['s.pinimg.com', 'ct.pinterest.com'],
+    cookies: [
+      { name: '_pin_unauth', category: 'marketing', purpose: 'Groups actions of visitors who are not signed in to Pinterest', duration: '1 year' },
+      { name: '_pinterest_ct_ua', category: 'marketing', purpose: 'Attributes conversions to Pinterest ads', duration: '1 year' },
+    ],
+  },
+  {
+    name: 'Snap Pixel',
+    category: 'marketing',
+    hosts: ['sc-static.net', 'tr.snapchat.com'],
+    cookies: [
+      { name: '_scid', category: 'marketing', purpose: 'Measures Snapchat ad conversions', duration: '13 months' },
+    ],
+  },
+  {
+    name: 'Klaviyo',
+    category: 'marketing',
+    hosts: ['klaviyo.com'],
+    cookies: [
+      { name: '__kla_id', category: 'marketing', purpose: 'Links browsing activity to email and SMS subscribers', duration: '2 years' },
+    ],
+  },
+  {
+    name: 'Hotjar',
+    category: 'analytics',
+    hosts: ['hotjar.com', 'hotjar.io'],
+    cookies: [
+      { name: '_hjSessionUser_*', category: 'analytics', purpose: 'Identifies returning visitors', duration: '1 year' },
+      { name: '_hjSession_*', category: 'analytics', purpose: 'Keeps session data', duration: '30 minutes' },
+    ],
+  },
+  {
+    name: 'Microsoft Clarity',
+    category: 'analytics',
+    hosts: ['clarity.ms'],
+    cookies: [
+      { name: '_clck', category: 'analytics', purpose: 'Identifies returning visitors', duration: '1 year' },
+      { name: '_clsk', category: 'analytics', purpose: 'Groups page views into sessions', duration: '1 day' },
+    ],
+  },
+  {
+    name: 'YouTube',
+    category: 'marketing',
+    hosts: ['youtube.com', 'youtube-nocookie.com', 'ytimg.com'],
+    cookies: [
+      { name: 'YSC', category: 'marketing', purpose: 'Tracks which videos were watched', duration: 'Session' },
+      { name: 'VISITOR_INFO1_LIVE', category: 'marketing', purpose: 'Estimates bandwidth and personalizes recommendations', duration: '6 months' },
+    ],
+  },
+  {
+    name: 'Vimeo',
+    category: 'analytics',
+    hosts: ['vimeo.com', 'vimeocdn.com'],
+    cookies: [
+      { name: 'vuid', category: 'analytics', purpose: 'Collects video viewing statistics', duration: '2 years' },
+    ],
+  },
+  {
+    name: 'Intercom',
+    category: 'preferences',
+    hosts: ['intercom.io', 'intercomcdn.com'],
+    cookies: [
+      { name: 'intercom-id-*', category: 'preferences', purpose: 'Identifies the visitor in the chat widget', duration: '9 months' },
+      { name: 'intercom-session-*', category: 'preferences', purpose: 'Keeps the chat conversation open', duration: '1 week' },
+    ],
+  },
+];
+
+function matchesCookieName(pattern: string, name: string): boolean {
+  return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : pattern === name;
+}
+
+/**
+ * Find the vendor serving a script or iframe host
+ */
+export function findVendorByHost(host: string): Vendor | null {
+  const normalized = host.toLowerCase();
+  return vendorCatalog.find(vendor =>
+    vendor.hosts.some(vendorHost => normalized === vendorHost || normalized.endsWith(`.${vendorHost}`))
+  ) || null;
+}
+
+/**
+ * Find the vendor and catalog entry for a cookie name
+ */
+export function findVendorCookie(name: string): { vendor: Vendor; cookie: VendorCookie } | null {
+  for (const vendor of vendorCatalog) {
+    const cookie = vendor.cookies.find(entry => matchesCookieName(entry.name, name));
+    if (cookie) return { vendor, cookie };
+  }
+  return null;
+}
@@ -93,6 +93,10 @@ vi.mock('@prisma/client', () => ({
       count: vi.fn(),
       deleteMany: vi.fn(),
     },
+    consentRecord: {
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
     session: {
       findUnique: vi.fn(),
       findMany: vi.fn(),
@@ -107,37 +111,41 @@ vi.mock('@prisma/client', () => ({
   })),
 }));
 
-// Mock fetch for API calls
-global.fetch = vi.fn();
-
-// Mock window.location
-Object.defineProperty(window, 'location', {
-  value: {
-    href: 'https://test-app.ngrok.io',
-    hostname: 'test-app.ngrok.io',
-    origin: 'https://test-app.ngrok.io',
-    pathname: '/dashboard',
-    search: '?shop=test-shop.myshopify.com&host=test-host',
-    reload: vi.fn(),
-    assign: vi.fn(),
-    replace: vi.fn(),
-  },
-  writable: true,
-});
+// Browser mocks only apply in the default jsdom environment. Files that opt into
+// `@vitest-environment node` have no window and keep Node's real fetch.
+if (typeof window !== 'undefined') {
+  // Mock fetch for API calls
+  global.fetch = vi.fn();
 
-// Mock localStorage
-const localStorageMock = {
-  getItem: vi.fn(),
-  setItem: vi.fn(),
-  removeItem: vi.fn(),
-  clear: vi.fn(),
-  length: 0,
-  key: vi.fn(),
-};
-Object.defineProperty(window, 'localStorage', {
-  value: localStorageMock,
-  writable: true,
-});
+  // Mock window.location
+  Object.defineProperty(window, 'location', {
+    value: {
+      href: 'https://test-app.ngrok.io',
+      hostname: 'test-app.ngrok.io',
+      origin: 'https://test-app.ngrok.io',
+      pathname: '/dashboard',
+      search: '?shop=test-shop.myshopify.com&host=test-host',
+      reload: vi.fn(),
+      assign: vi.fn(),
+      replace: vi.fn(),
+    },
+    writable: true,
+  });
+
+  // Mock localStorage
+  const localStorageMock = {
+    getItem: vi.fn(),
+    setItem: vi.fn(),
+    removeItem: vi.fn(),
+    clear: vi.fn(),
+    length: 0,
+    key: vi.fn(),
+  };
+  Object.defineProperty(window, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+}
 
 // Mock console methods in tests
 global.console = {
@@ -184,14 +192,82 @@ export const mockSubscription = {
 export const mockSettings = {
   message: 'We use cookies to enhance your browsing experience.',
   linkUrl: '/pages/privacy-policy',
+  layout: 'card' as const,
   position: 'bottom' as const,
+  showBackdrop: true,
   maxWidth: 400,
   padding: 20,
   zIndex: 9999,
   dismissible: true,
+  showRejectAll: true,
+  honorDoNotTrack: false,
   bgColor: '#ffffff',
   textColor: '#333333',
   linkColor: '#007ace',
+  colorScheme: 'custom' as const,
+  darkColors: {
+    enabled: false,
+    bgColor: '#1f1f1f',
+    textColor: '#f1f1f1',
+    linkColor: '#5fb4ff',
+  },
+  highContrastColors: {
+    enabled: false,
+    bgColor: '#ffffff',
+    textColor: '#000000',
+    linkColor: '#0000cc',
+  },
+  categories: [
+    {
+      id: 'necessary' as const,
+      label: 'Strictly necessary',
+      description: 'Required for the store to work.',
+      enabled: true,
+    },
+    {
+      id: 'analytics' as const,
+      label: 'Analytics',
+      description: 'Help us understand how visitors use the store.',
+      enabled: true,
+    },
+  ],
+  consentVersion: 1,
+  consentLifetimeDays: 365,
+  storage: {
+    mode: 'local_storage' as const,
+    cookieDomain: '',
+    sameSite: 'Lax' as const,
+    cookieLifetimeDays: 365,
+  },
+  regionRules: [],
+  defaultRegionBehavior: 'banner' as const,
+  displayTrigger: {
+    type: 'immediate' as const,
+    delaySeconds: 5,
+    scrollPercent: 50,
+    pageViews: 2,
+  },
+  pageRules: [],
+  reopenWidget: {
+    enabled: false,
+    position: 'bottom-left' as const,
+    style: 'icon_label' as const,
+    icon: 'cookie' as const,
+  },
+  customCss: '',
+  labels: {
+    accept: 'Accept',
+    reject: 'Reject all',
+    customize: 'Customize',
+    dismiss: 'Dismiss',
+    acknowledge: 'OK',
+    savePreferences: 'Save preferences',
+    back: 'Back',
+    learnMore: 'Learn more',
+    close: 'Close privacy notice',
+    reopen: 'Cookie settings',
+  },
+  translations: {},
 };
 
 export const createMockApiResponse = <T>(data: T, success = true) => ({
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/cookies/route';
+import { mockShop } from '../../setup';
+
+// Mock the dependencies
+vi.mock('@/lib/shopify', () => ({
+  shopify: {
+    session: {
+      getOfflineId: vi.fn(() => 'offline_test-shop.myshopify.com'),
+    },
+    config: {
+      sessionStorage: {
+        loadSession: vi.fn(),
+      },
+    },
+  },
+  shopifyHelpers: {
+    setAppMetafield: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    findShopByDomain: vi.fn(),
+    getShopSettings: vi.fn(),
+    updateShopSettings: vi.fn(),
+    createAuditLog: vi.fn(),
+  },
+}));
+
+const mockShopifyModule = await import('@/lib/shopify');
+const mockDbModule = await import('@/lib/db');
+
+const declaredCookies = [
+  {
+    name: '_ga',
+    provider: 'Google Analytics',
+    purpose: 'Distinguishes visitors',
+    category: 'analytics',
+    duration: '2 years',
+  },
+  {
+    name: 'cart',
+    provider: 'Shopify',
+    purpose: 'Keeps the contents of the shopping cart',
+    category: 'necessary',
+    duration: '2 weeks',
+  },
+];
+
+describe('/api/cookies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+      shop: 'test-shop.myshopify.com',
+      accessToken: 'test-token',
+    });
+    mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+  });
+
+  describe('GET', () => {
+    it('should return the declaration and latest scan', async () => {
+      const scan = { scannedAt: '2024-01-01T00:00:00.000Z', cookies: [], resources: [] };
+      mockDbModule.db.getShopSettings
+        .mockResolvedValueOnce(declaredCookies) // cookie_declaration
+        .mockResolvedValueOnce(scan); // cookie_scan
+
+      const request = new NextRequest('http://localhost:3000/api/cookies?shop=test-shop.myshopify.com');
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.cookies).toEqual(declaredCookies);
+      expect(data.data.scan).toEqual(scan);
+    });
+
+    it('should return an empty declaration for new shops', async () => {
+      mockDbModule.db.getShopSettings.mockResolvedValue(null);
+
+      const request = new NextRequest('http://localhost:3000/api/cookies?shop=test-shop.myshopify.com');
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(data.data.cookies).toEqual([]);
+      expect(data.data.scan).toBeNull();
+    });
+  });
+
+  describe('POST', () => {
+    it('should store the declaration and publish it to the storefront', async () => {
+      const request = new NextRequest('http://localhost:3000/api/cookies?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify({ cookies: declaredCookies }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(mockDbModule.db.updateShopSettings).toHaveBeenCalledWith(
+        mockShop.id,
+        'cookie_declaration',
+        declaredCookies
+      );
+      expect(mockShopifyModule.shopifyHelpers.setAppMetafield).toHaveBeenCalledWith(
+        expect.anything(),
+        'cookie_declaration',
+        declaredCookies
+      );
+    });
+
+    it('should reject cookies declared twice', async () => {
+      const request = new NextRequest('http://localhost:3000/api/cookies?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify({ cookies: [declaredCookies[0], declaredCookies[0]] }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('cookies');
+      expect(mockDbModule.db.updateShopSettings).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown categories', async () => {
+      const request = new NextRequest('http://localhost:3000/api/cookies?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify({ cookies: [{ ...declaredCookies[0], category: 'advertising' }] }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('cookies.0.category');
+    });
+  });
+});
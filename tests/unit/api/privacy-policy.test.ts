@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/privacy-policy/route';
+import { defaultPopupSettings } from '@/lib/consent';
+import { mockShop, mockSettings } from '../../setup';
+
+// Mock the dependencies
+vi.mock('@/lib/shopify', () => ({
+  shopify: {
+    session: {
+      getOfflineId: vi.fn(() => 'offline_test-shop.myshopify.com'),
+    },
+    config: {
+      sessionStorage: {
+        loadSession: vi.fn(),
+      },
+    },
+  },
+  shopifyHelpers: {
+    getPrivacyPolicy: vi.fn(),
+    publishPrivacyPolicy: vi.fn(),
+    setAppMetafield: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    findShopByDomain: vi.fn(),
+    getShopSettings: vi.fn(),
+    updateShopSettings: vi.fn(),
+    createAuditLog: vi.fn(),
+  },
+}));
+
+const mockShopifyModule = await import('@/lib/shopify');
+const mockDbModule = await import('@/lib/db');
+
+const germanShop = {
+  ...mockShop,
+  address1: 'Hauptstraße 1',
+  city: 'Berlin',
+  zip: '10115',
+  province: null,
+  country: 'DE',
+};
+
+function publishRequest(body: Record<string, unknown>) {
+  return new NextRequest('http://localhost:3000/api/privacy-policy?shop=test-shop.myshopify.com', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/privacy-policy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+      shop: 'test-shop.myshopify.com',
+      accessToken: 'test-token',
+    });
+    mockDbModule.db.findShopByDomain.mockResolvedValue(germanShop);
+    mockDbModule.db.getShopSettings.mockResolvedValue(mockSettings);
+  });
+
+  describe('GET', () => {
+    it('should generate a policy for the shop\'s jurisdiction', async () => {
+      mockShopifyModule.shopifyHelpers.getPrivacyPolicy.mockResolvedValue(null);
+
+      const request = new NextRequest('http://localhost:3000/api/privacy-policy?shop=test-shop.myshopify.com');
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.target).toBe('page');
+      expect(data.data.jurisdiction).toBe('gdpr');
+      expect(data.data.details.address).toBe('Hauptstraße 1, 10115 Berlin, Germany');
+      expect(data.data.body).toContain('General Data Protection Regulation');
+      expect(data.data.body).toContain('test@example.com');
+      expect(data.data.exists).toBe(false);
+      expect(data.data.diff).toBeNull();
+    });
+
+    it('should only describe the enabled categories', async () => {
+      mockDbModule.db.getShopSettings.mockResolvedValue({
+        ...mockSettings,
+        categories: mockSettings.categories.map(category =>
+          category.id === 'analytics' ? { ...category, enabled: false } : category
+        ),
+      });
+      mockShopifyModule.shopifyHelpers.getPrivacyPolicy.mockResolvedValue(null);
+
+      const request = new NextRequest('http://localhost:3000/api/privacy-policy?shop=test-shop.myshopify.com');
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(data.data.body).toContain('<strong>Strictly necessary:</strong>');
+      expect(data.data.body).not.toContain('<strong>Analytics:</strong>');
+    });
+
+    it('should diff against the current policy', async () => {
+      mockShopifyModule.shopifyHelpers.getPrivacyPolicy.mockResolvedValue({
+        body: '<p>Our old policy</p>',
+      });
+
+      const request = new NextRequest(
+        'http://localhost:3000/api/privacy-policy?shop=test-shop.myshopify.com&target=shop_policy&jurisdiction=us'
+      );
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(mockShopifyModule.shopifyHelpers.getPrivacyPolicy).toHaveBeenCalledWith(
+        expect.anything(),
+        'shop_policy'
+      );
+      expect(data.data.jurisdiction).toBe('us');
+      expect(data.data.diff[0]).toEqual({ type: 'removed', text: '<p>Our old policy</p>' });
+    });
+  });
+
+  describe('POST', () => {
+    it('should publish the policy and point the popup at it', async () => {
+      mockShopifyModule.shopifyHelpers.getPrivacyPolicy.mockResolvedValue(null);
+      mockShopifyModule.shopifyHelpers.publishPrivacyPolicy.mockResolvedValue('/policies/privacy-policy');
+
+      const response = await POST(publishRequest({ target: 'shop_policy', jurisdiction: 'gdpr' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual({ linkUrl: '/policies/privacy-policy' });
+      expect(mockDbModule.db.updateShopSettings).toHaveBeenCalledWith(
+        mockShop.id,
+        'popup_settings',
+        { ...mockSettings, linkUrl: '/policies/privacy-policy' }
+      );
+    });
+
+    it('should save the default settings with the new link for shops that never saved', async () => {
+      mockDbModule.db.getShopSettings.mockResolvedValue(null);
+      mockShopifyModule.shopifyHelpers.getPrivacyPolicy.mockResolvedValue(null);
+      mockShopifyModule.shopifyHelpers.publishPrivacyPolicy.mockResolvedValue('/policies/privacy-policy');
+
+      const response = await POST(publishRequest({ target: 'shop_policy', jurisdiction: 'gdpr' }));
+
+      expect(response.status).toBe(200);
+      expect(mockDbModule.db.updateShopSettings).toHaveBeenCalledWith(
+        mockShop.id,
+        'popup_settings',
+        { ...defaultPopupSettings, linkUrl: '/policies/privacy-policy' }
+      );
+      expect(mockShopifyModule.shopifyHelpers.setAppMetafield).toHaveBeenCalledWith(
+        expect.anything(),
+        'popup_settings',
+        { ...defaultPopupSettings, linkUrl: '/policies/privacy-policy' }
+      );
+    });
+
+    it('should not replace an existing policy without overwrite', async () => {
+      mockShopifyModule.shopifyHelpers.getPrivacyPolicy.mockResolvedValue({
+        body: '<p>Our old policy</p>',
+      });
+
+      const response = await POST(publishRequest({ target: 'page', jurisdiction: 'gdpr' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.data.diff.length).toBeGreaterThan(1);
+      expect(mockShopifyModule.shopifyHelpers.publishPrivacyPolicy).not.toHaveBeenCalled();
+    });
+
+    it('should replace an existing policy with overwrite', async () => {
+      mockShopifyModule.shopifyHelpers.getPrivacyPolicy.mockResolvedValue({
+        body: '<p>Our old policy</p>',
+      });
+      mockShopifyModule.shopifyHelpers.publishPrivacyPolicy.mockResolvedValue('/pages/privacy-policy');
+
+      const response = await POST(publishRequest({ target: 'page', jurisdiction: 'gdpr', overwrite: true }));
+
+      expect(response.status).toBe(200);
+      expect(mockShopifyModule.shopifyHelpers.publishPrivacyPolicy).toHaveBeenCalledWith(
+        expect.anything(),
+        'page',
+        expect.stringContaining('General Data Protection Regulation')
+      );
+    });
+
+    it('should reject unknown jurisdictions', async () => {
+      const response = await POST(publishRequest({ target: 'page', jurisdiction: 'mars' }));
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST as postConsent } from '@/app/api/proxy/consent/route';
+import { GET as getSettings } from '@/app/api/proxy/settings/route';
+import { mockShop, mockSettings } from '../../setup';
+
+vi.mock('@/lib/shopify', () => ({
+  shopifyHelpers: {
+    verifyProxySignature: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    findShopByDomain: vi.fn(),
+    getShopSettings: vi.fn(),
+    createConsentRecord: vi.fn(),
+  },
+}));
+
+const mockShopifyModule = await import('@/lib/shopify');
+const mockDbModule = await import('@/lib/db');
+
+const proxyUrl = (path: string) =>
+  `http://localhost:3000/api/proxy/${path}?shop=test-shop.myshopify.com&path_prefix=%2Fapps%2Fprivacy-popup&timestamp=1317327555&signature=test-signature`;
+
+describe('/api/proxy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('POST /consent', () => {
+    const validRecord = {
+      visitorId: '6f1c2a9e-4b7d-4e0a-9c3f-2d8b5e7a1f60',
+      action: 'custom',
+      status: 'partial',
+      categories: { necessary: true, analytics: true, marketing: false },
+      version: 2,
+      region: 'DE',
+    };
+
+    const createRequest = (body: unknown) =>
+      new NextRequest(proxyUrl('consent'), {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Mozilla/5.0 (Test)',
+        },
+      });
+
+    it('should record a consent decision for the signed shop', async () => {
+      mockShopifyModule.shopifyHelpers.verifyProxySignature.mockReturnValue(true);
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+      mockDbModule.db.createConsentRecord.mockResolvedValue({
+        id: 'consent-record-id',
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+      });
+
+      const response = await postConsent(createRequest(validRecord));
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.success).toBe(true);
+      expect(data.data.id).toBe('consent-record-id');
+      expect(mockDbModule.db.findShopByDomain).toHaveBeenCalledWith('test-shop.myshopify.com');
+      expect(mockDbModule.db.createConsentRecord).toHaveBeenCalledWith({
+        shopId: mockShop.id,
+        visitorId: validRecord.visitorId,
+        action: 'custom',
+        status: 'partial',
+        categories: validRecord.categories,
+        version: 2,
+        region: 'DE',
+        userAgentHash: expect.stringMatching(/^[a-f0-9]{64}$/),
+      });
+    });
+
+    it('should not store the raw user agent', async () => {
+      mockShopifyModule.shopifyHelpers.verifyProxySignature.mockReturnValue(true);
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+      mockDbModule.db.createConsentRecord.mockResolvedValue({ id: 'consent-record-id' });
+
+      await postConsent(createRequest(validRecord));
+
+      const stored = JSON.stringify(mockDbModule.db.createConsentRecord.mock.calls[0][0]);
+      expect(stored).not.toContain('Mozilla');
+    });
+
+    it('should reject requests with an invalid signature', async () => {
+      mockShopifyModule.shopifyHelpers.verifyProxySignature.mockReturnValue(false);
+
+      const response = await postConsent(createRequest(validRecord));
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.error).toBe('Invalid proxy signature');
+      expect(mockDbModule.db.createConsentRecord).not.toHaveBeenCalled();
+    });
+
+    it('should return error for unknown shop', async () => {
+      mockShopifyModule.shopifyHelpers.verifyProxySignature.mockReturnValue(true);
+      mockDbModule.db.findShopByDomain.mockResolvedValue(null);
+
+      const response = await postConsent(createRequest(validRecord));
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe('Shop not found');
+      expect(mockDbModule.db.createConsentRecord).not.toHaveBeenCalled();
+    });
+
+    it('should return validation error for invalid records', async () => {
+      mockShopifyModule.shopifyHelpers.verifyProxySignature.mockReturnValue(true);
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const response = await postConsent(createRequest({
+        ...validRecord,
+        action: 'implied',
+        categories: { advertising: true },
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Invalid consent record');
+      expect(data.details.length).toBeGreaterThan(0);
+      expect(mockDbModule.db.createConsentRecord).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /settings', () => {
+    it('should return live settings for the signed shop', async () => {
+      mockShopifyModule.shopifyHelpers.verifyProxySignature.mockReturnValue(true);
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+      mockDbModule.db.getShopSettings
+        .mockResolvedValueOnce(mockSettings) // popup_settings
+        .mockResolvedValueOnce(null); // google_consent_mode
+
+      const response = await getSettings(new NextRequest(proxyUrl('settings')));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.popupSettings).toEqual(mockSettings);
+      expect(data.data.consentMode).toEqual({ enabled: false, regions: [] });
+    });
+
+    it('should reject requests with an invalid signature', async () => {
+      mockShopifyModule.shopifyHelpers.verifyProxySignature.mockReturnValue(false);
+
+      const response = await getSettings(new NextRequest(proxyUrl('settings')));
+
+      expect(response.status).toBe(401);
+      expect(mockDbModule.db.findShopByDomain).not.toHaveBeenCalled();
+    });
+  });
+});
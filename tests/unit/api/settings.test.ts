@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { NextRequest } from 'next/server';
 import { GET, POST } from '@/app/api/settings/route';
-import { mockShop, mockSettings, createMockApiResponse } from '../../setup';
+import { defaultConsentCategories, defaultDarkColors, defaultHighContrastColors } from '@/lib/consent';
+import { mockShop, mockSettings, mockSubscription, createMockApiResponse } from '../../setup';
 
 // Mock the dependencies
 vi.mock('@/lib/shopify', () => ({
@@ -15,6 +16,9 @@ vi.mock('@/lib/shopify', () => ({
       },
     },
   },
+  shopifyHelpers: {
+    setAppMetafield: vi.fn(),
+  },
 }));
 
 vi.mock('@/lib/db', () => ({
@@ -99,16 +103,82 @@ describe('/api/settings', () => {
 
   describe('POST', () => {
     const validSettings = {
-      message: 'Updated privacy message',
+      message: 'Updated privacy message with **bold** text and a [shipping policy](/policies/shipping-policy) link',
       linkUrl: '/pages/privacy-policy',
+      layout: 'modal',
       position: 'top',
+      showBackdrop: false,
       maxWidth: 500,
       padding: 25,
       zIndex: 10000,
       dismissible: false,
+      showRejectAll: true,
+      honorDoNotTrack: true,
       bgColor: '#f0f0f0',
       textColor: '#000000',
       linkColor: '#0066cc',
+      colorScheme: 'auto',
+      darkColors: {
+        enabled: true,
+        bgColor: '#121212',
+        textColor: '#eeeeee',
+        linkColor: '#80c0ff',
+      },
+      highContrastColors: {
+        enabled: true,
+        bgColor: '#000000',
+        textColor: '#ffffff',
+        linkColor: '#ffff00',
+      },
+      categories: defaultConsentCategories,
+      consentVersion: 2,
+      consentLifetimeDays: 180,
+      storage: {
+        mode: 'cookie',
+        cookieDomain: '.example.com',
+        sameSite: 'Lax',
+        cookieLifetimeDays: 180,
+      },
+      regionRules: [
+        { regions: ['EEA', 'GB', 'US-CA'], behavior: 'banner' },
+      ],
+      defaultRegionBehavior: 'notice',
+      displayTrigger: {
+        type: 'scroll',
+        delaySeconds: 5,
+        scrollPercent: 40,
+        pageViews: 2,
+      },
+      pageRules: [
+        { mode: 'exclude', match: 'template', value: 'cart' },
+        { mode: 'exclude', match: 'url', value: '/pages/landing-*' },
+      ],
+      reopenWidget: {
+        enabled: true,
+        position: 'bottom-right',
+        style: 'icon',
+        icon: 'shield',
+      },
+      customCss: '.privacy-popup .privacy-popup__button { text-transform: uppercase; }',
+      labels: {
+        accept: 'Allow cookies',
+        reject: 'No thanks',
+        customize: 'Choose cookies',
+        dismiss: 'Got it',
+        acknowledge: 'Got it',
+        savePreferences: 'Save my choices',
+        back: 'Back',
+        learnMore: 'Read our privacy policy',
+        close: 'Close cookie banner',
+        reopen: 'Privacy choices',
+      },
+      translations: {
+        fr: {
+          message: 'Nous utilisons des cookies.',
+          strings: { accept: 'Accepter', reject: 'Tout refuser' },
+          categories: { analytics: { label: 'Statistiques' } },
+        },
+      },
     };
 
     it('should update settings for subscribed shop', async () => {
@@ -120,6 +190,7 @@ describe('/api/settings', () => {
       mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
       mockDbModule.db.getActiveSubscription.mockResolvedValue({
         ...mockSubscription,
+        name: 'Privacy Popup Premium',
         status: 'ACTIVE',
       });
       mockDbModule.db.updateShopSettings.mockResolvedValue(undefined);
@@ -144,6 +215,11 @@ describe('/api/settings', () => {
         'popup_settings',
         validSettings
       );
+      expect(mockShopifyModule.shopifyHelpers.setAppMetafield).toHaveBeenCalledWith(
+        expect.anything(),
+        'popup_settings',
+        validSettings
+      );
     });
 
     it('should restrict features for non-subscribed shop', async () => {
@@ -172,6 +248,7 @@ describe('/api/settings', () => {
       expect(data.success).toBe(true);
       expect(data.warning).toBeDefined();
       expect(data.restrictedFeatures).toContain('custom_colors');
+      expect(data.restrictedFeatures).toContain('custom_css');
       
       // Should have called updateShopSettings with restricted colors
       const restrictedSettings = {
@@ -179,6 +256,9 @@ describe('/api/settings', () => {
         bgColor: '#ffffff',
         textColor: '#333333',
         linkColor: '#007ace',
+        darkColors: { ...defaultDarkColors, enabled: true },
+        highContrastColors: { ...defaultHighContrastColors, enabled: true },
+        customCss: '',
       };
       expect(mockDbModule.db.updateShopSettings).toHaveBeenCalledWith(
         mockShop.id,
@@ -187,6 +267,162 @@ describe('/api/settings', () => {
       );
     });
 
+    it('should only allow custom CSS on the premium plan', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+      mockDbModule.db.getActiveSubscription.mockResolvedValue({
+        ...mockSubscription,
+        status: 'ACTIVE',
+      });
+      mockDbModule.db.updateShopSettings.mockResolvedValue(undefined);
+      mockDbModule.db.createAuditLog.mockResolvedValue(undefined);
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(validSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.restrictedFeatures).toEqual(['custom_css']);
+      expect(mockDbModule.db.updateShopSettings).toHaveBeenCalledWith(
+        mockShop.id,
+        'popup_settings',
+        { ...validSettings, customCss: '' }
+      );
+    });
+
+    it('should scope custom CSS to the popup', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+      mockDbModule.db.getActiveSubscription.mockResolvedValue({
+        ...mockSubscription,
+        name: 'Privacy Popup Premium',
+        status: 'ACTIVE',
+      });
+      mockDbModule.db.updateShopSettings.mockResolvedValue(undefined);
+      mockDbModule.db.createAuditLog.mockResolvedValue(undefined);
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...validSettings,
+          customCss: 'body { display: none; } .privacy-popup__link:hover { color: red; }',
+        }),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.customCss).toBe(
+        '.privacy-popup body { display: none; }\n.privacy-popup .privacy-popup__link:hover { color: red; }'
+      );
+    });
+
+    it('should reject custom CSS that loads remote resources', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const invalidSettings = {
+        ...validSettings,
+        customCss: '.privacy-popup { background: url(https://example.com/track.gif); }',
+      };
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(invalidSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('customCss');
+      expect(mockDbModule.db.updateShopSettings).not.toHaveBeenCalled();
+    });
+
+    it('should reject keyframes that could override theme animations', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const invalidSettings = {
+        ...validSettings,
+        customCss: '@media (min-width: 750px) { @keyframes fadeIn { from { opacity: 0; } } }',
+      };
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(invalidSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('customCss');
+    });
+
+    it('should keep keyframes with the popup prefix', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+      mockDbModule.db.getActiveSubscription.mockResolvedValue({
+        ...mockSubscription,
+        name: 'Privacy Popup Premium',
+        status: 'ACTIVE',
+      });
+      mockDbModule.db.updateShopSettings.mockResolvedValue(undefined);
+      mockDbModule.db.createAuditLog.mockResolvedValue(undefined);
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...validSettings,
+          customCss: '@keyframes privacy-popup-fade { from { opacity: 0; } } .privacy-popup { animation: privacy-popup-fade 1s; }',
+        }),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.customCss).toBe(
+        '@keyframes privacy-popup-fade { from { opacity: 0; } }\n.privacy-popup { animation: privacy-popup-fade 1s; }'
+      );
+    });
+
     it('should return validation error for invalid settings', async () => {
       mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
         shop: 'test-shop.myshopify.com',
@@ -218,6 +454,232 @@ describe('/api/settings', () => {
       expect(data.details.length).toBeGreaterThan(0);
     });
 
+    it('should reject categories without the strictly necessary category', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const invalidSettings = {
+        ...validSettings,
+        categories: defaultConsentCategories.map(category => ({
+          ...category,
+          enabled: category.id !== 'necessary',
+        })),
+      };
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(invalidSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('categories');
+      expect(mockDbModule.db.updateShopSettings).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown region codes in display rules', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const invalidSettings = {
+        ...validSettings,
+        regionRules: [{ regions: ['Europe'], behavior: 'banner' }],
+      };
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(invalidSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('regionRules.0.regions.0');
+    });
+
+    it('should reject page rules with an invalid URL pattern', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const invalidSettings = {
+        ...validSettings,
+        pageRules: [{ mode: 'include', match: 'url', value: 'collections/sale' }],
+      };
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(invalidSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('pageRules.0.value');
+    });
+
+    it('should reject an invalid cookie domain', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const invalidSettings = {
+        ...validSettings,
+        storage: { ...validSettings.storage, cookieDomain: 'example.com; path=/' },
+      };
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(invalidSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('storage.cookieDomain');
+    });
+
+    it('should reject an invalid dark mode color', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const invalidSettings = {
+        ...validSettings,
+        darkColors: { ...validSettings.darkColors, bgColor: 'black' },
+      };
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(invalidSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('darkColors.bgColor');
+    });
+
+    it('should reject HTML in the message', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const invalidSettings = {
+        ...validSettings,
+        message: 'We use cookies. <img src=x onerror="alert(1)">',
+      };
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(invalidSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('message');
+    });
+
+    it('should reject javascript: links in translated messages', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const invalidSettings = {
+        ...validSettings,
+        translations: {
+          fr: {
+            message: 'Nous utilisons des [cookies](javascript:alert(1)).',
+            strings: {},
+            categories: {},
+          },
+        },
+      };
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(invalidSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('translations.fr.message');
+    });
+
+    it('should reject button labels over the length limit', async () => {
+      mockShopifyModule.shopify.config.sessionStorage.loadSession.mockResolvedValue({
+        shop: 'test-shop.myshopify.com',
+        accessToken: 'test-token',
+      });
+      mockDbModule.db.findShopByDomain.mockResolvedValue(mockShop);
+
+      const invalidSettings = {
+        ...validSettings,
+        labels: { ...validSettings.labels, accept: 'Accept all cookies and continue shopping on our store' },
+      };
+
+      const request = new NextRequest('http://localhost:3000/api/settings?shop=test-shop.myshopify.com', {
+        method: 'POST',
+        body: JSON.stringify(invalidSettings),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details[0].field).toBe('labels.accept');
+    });
+
     it('should return error for missing shop parameter', async () => {
       const request = new NextRequest('http://localhost:3000/api/settings', {
         method: 'POST',
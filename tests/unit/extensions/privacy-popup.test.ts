@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+
+const source = readFileSync(
+  path.resolve(__dirname, '../../../extensions/privacy-popup/assets/privacy-popup.js'),
+  'utf8'
+);
+
+const storage = new Map<string, string>();
+
+// Renders the app embed's markup and runs the storefront script as the theme would
+function loadPopup(config: Record<string, unknown>) {
+  document.body.innerHTML = `
+    <div id="privacy-popup-container" data-country="DE" style="display: none;"></div>
+    <script type="application/json" id="privacy-popup-config">${JSON.stringify(config)}</script>
+  `;
+  new Function(source)();
+  return (window as any).PrivacyPopup;
+}
+
+describe('privacy-popup.js', () => {
+  beforeEach(() => {
+    storage.clear();
+    (window as any).PrivacyPopupStorage = {
+      get: (key: string) => storage.get(key) ?? null,
+      set: (key: string, value: string) => storage.set(key, value),
+      remove: (key: string) => storage.delete(key),
+    };
+    vi.mocked(fetch).mockResolvedValue(new Response(null, { status: 204 }));
+  });
+
+  afterEach(() => {
+    delete (window as any).PrivacyPopup;
+    delete (window as any).PrivacyPopupStorage;
+    document.body.innerHTML = '';
+  });
+
+  describe('rejectAll', () => {
+    it('should record a denial when every optional category is enabled', () => {
+      const popup = loadPopup({});
+
+      popup.rejectAll();
+
+      expect(popup.getConsent().status).toBe('denied');
+      expect(popup.hasRejectedAll()).toBe(true);
+    });
+
+    it('should record a denial when the merchant turned off every optional category', () => {
+      const popup = loadPopup({
+        categories: [
+          { id: 'necessary', label: 'Strictly necessary', enabled: true },
+          { id: 'analytics', label: 'Analytics', enabled: false },
+          { id: 'marketing', label: 'Marketing', enabled: false },
+        ],
+      });
+
+      popup.rejectAll();
+
+      expect(popup.getConsent().status).toBe('denied');
+      expect(popup.hasRejectedAll()).toBe(true);
+
+      const [, request] = vi.mocked(fetch).mock.calls[0]!;
+      expect(JSON.parse(request!.body as string)).toMatchObject({
+        action: 'reject_all',
+        status: 'denied',
+      });
+    });
+  });
+});
@@ -2,8 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { db } from '@/lib/db';
 import { mockShop, mockSubscription } from '../../setup';
 
-// Mock the Prisma client
-const mockPrisma = {
+// Mock the Prisma client. vi.mock is hoisted above the imports, so the mock has to be too
+const mockPrisma = vi.hoisted(() => ({
   shop: {
     findUnique: vi.fn(),
     upsert: vi.fn(),
@@ -23,21 +23,20 @@ const mockPrisma = {
     findMany: vi.fn(),
     count: vi.fn(),
   },
+  consentRecord: {
+    create: vi.fn(),
+  },
   session: {
     findUnique: vi.fn(),
     upsert: vi.fn(),
     delete: vi.fn(),
     deleteMany: vi.fn(),
   },
-};
-
-vi.mock('@/lib/db', async () => {
-  const actual = await vi.importActual('@/lib/db');
-  return {
-    ...actual,
-    prisma: mockPrisma,
-  };
-});
+}));
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => mockPrisma),
+}));
 
 describe('Database utilities', () => {
   beforeEach(() => {
@@ -291,4 +290,33 @@ describe('Database utilities', () => {
       expect(result).toEqual(createdLog);
     });
   });
+
+  describe('createConsentRecord', () => {
+    it('should create a consent record', async () => {
+      const recordData = {
+        shopId: 'test-shop-id',
+        visitorId: 'visitor-id',
+        action: 'custom',
+        status: 'partial',
+        categories: { necessary: true, analytics: true, marketing: false },
+        version: 1,
+        region: 'DE',
+      };
+
+      const createdRecord = {
+        id: 'consent-record-id',
+        ...recordData,
+        createdAt: new Date(),
+      };
+
+      mockPrisma.consentRecord.create.mockResolvedValue(createdRecord);
+
+      const result = await db.createConsentRecord(recordData);
+
+      expect(mockPrisma.consentRecord.create).toHaveBeenCalledWith({
+        data: recordData,
+      });
+      expect(result).toEqual(createdRecord);
+    });
+  });
 });
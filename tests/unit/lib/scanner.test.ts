@@ -0,0 +1,202 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  scanStorefront,
+  runStorefrontScan,
+  formatDuration,
+  SCAN_SETTINGS_KEY,
+  type PageFetcher,
+} from '@/lib/scanner';
+import { mockShop } from '../../setup';
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    updateShopSettings: vi.fn(),
+  },
+}));
+
+const mockDbModule = await import('@/lib/db');
+
+// Storefront pages served by the fixture server
+const fixturePages: Record<string, { cookies: string[]; html: string }> = {
+  '/': {
+    cookies: [
+      'localization=US; Path=/; Max-Age=1209600',
+      '_shopify_y=abc; Path=/; Expires=Wed, 01 Jan 2099 00:00:00 GMT',
+      'old_cookie=; Path=/; Max-Age=0',
+    ],
+    html: `
+      <script src="/cdn/theme.js"></script>
+      <script async src="https://connect.facebook.net/en_US/fbevents.js"></script>
+      <script src="https://widgets.unknown-vendor.example/widget.js"></script>
+    `,
+  },
+  '/cart': {
+    cookies: ['cart=1; Path=/; Max-Age=1209600', 'session_only=1; Path=/'],
+    html: '<iframe src="https://www.youtube.com/embed/abc"></iframe>',
+  },
+};
+
+let server: Server;
+let origin: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const page = fixturePages[req.url || '/'];
+    if (!page) {
+      res.writeHead(404, { 'Content-Type': 'text/html' });
+      res.end('Not found');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html', 'Set-Cookie': page.cookies });
+    res.end(page.html);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('Cookie scanner', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('scanStorefront', () => {
+    it('should collect cookies from Set-Cookie headers', async () => {
+      const result = await scanStorefront(origin, { paths: ['/', '/cart'] });
+
+      expect(result.origin).toBe(origin);
+      expect(result.pages).toEqual([
+        { path: '/', status: 200 },
+        { path: '/cart', status: 200 },
+      ]);
+
+      const localization = result.cookies.find(cookie => cookie.name === 'localization');
+      expect(localization).toMatchObject({
+        source: 'header',
+        vendor: 'Shopify',
+        category: 'necessary',
+        duration: '2 weeks',
+        pages: ['/'],
+      });
+
+      const sessionOnly = result.cookies.find(cookie => cookie.name === 'session_only');
+      expect(sessionOnly).toMatchObject({
+        vendor: null,
+        category: null,
+        duration: 'Session',
+      });
+
+      // Deleted cookies are not reported
+      expect(result.cookies.find(cookie => cookie.name === 'old_cookie')).toBeUndefined();
+    });
+
+    it('should detect third-party scripts and iframes', async () => {
+      const result = await scanStorefront(origin, { paths: ['/', '/cart'] });
+
+      expect(result.resources).toEqual([
+        {
+          origin: 'https://connect.facebook.net',
+          type: 'script',
+          vendor: 'Meta Pixel',
+          category: 'marketing',
+          pages: ['/'],
+        },
+        {
+          origin: 'https://widgets.unknown-vendor.example',
+          type: 'script',
+          vendor: null,
+          category: null,
+          pages: ['/'],
+        },
+        {
+          origin: 'https://www.youtube.com',
+          type: 'iframe',
+          vendor: 'YouTube',
+          category: 'marketing',
+          pages: ['/cart'],
+        },
+      ]);
+    });
+
+    it('should report cookies set by detected vendor scripts', async () => {
+      const result = await scanStorefront(origin, { paths: ['/'] });
+
+      const fbp = result.cookies.find(cookie => cookie.name === '_fbp');
+      expect(fbp).toMatchObject({
+        source: 'vendor',
+        vendor: 'Meta Pixel',
+        category: 'marketing',
+        pages: ['/'],
+      });
+    });
+
+    it('should record pages that fail to load', async () => {
+      const fetcher: PageFetcher = vi.fn(async (url: string) => {
+        if (url.endsWith('/search')) {
+          throw new Error('Connection reset');
+        }
+        return { url, status: 200, setCookies: [], html: '' };
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await scanStorefront('https://example.com', { fetcher, paths: ['/', '/search'] });
+
+      expect(result.pages).toEqual([
+        { path: '/', status: 200 },
+        { path: '/search', status: 0 },
+      ]);
+    });
+
+    it('should detect password-protected stores', async () => {
+      const fetcher: PageFetcher = async () => ({
+        url: 'https://example.com/password',
+        status: 200,
+        setCookies: [],
+        html: '',
+      });
+
+      const result = await scanStorefront('https://example.com', { fetcher, paths: ['/'] });
+
+      expect(result.passwordProtected).toBe(true);
+    });
+  });
+
+  describe('runStorefrontScan', () => {
+    it('should scan the primary domain and store the result', async () => {
+      const fetcher: PageFetcher = vi.fn(async (url: string) => ({
+        url,
+        status: 200,
+        setCookies: [],
+        html: '',
+      }));
+
+      const result = await runStorefrontScan(
+        { ...mockShop, domain: 'shop.example.com' },
+        { fetcher, paths: ['/'] }
+      );
+
+      expect(fetcher).toHaveBeenCalledWith('https://shop.example.com/');
+      expect(mockDbModule.db.updateShopSettings).toHaveBeenCalledWith(
+        mockShop.id,
+        SCAN_SETTINGS_KEY,
+        result
+      );
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format cookie lifetimes', () => {
+      expect(formatDuration(null)).toBe('Session');
+      expect(formatDuration(60 * 60 * 24 * 365)).toBe('1 year');
+      expect(formatDuration(60 * 60 * 24 * 14)).toBe('2 weeks');
+      expect(formatDuration(30)).toBe('1 minute');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import '@shopify/shopify-api/adapters/node';
+import { shopifyHelpers } from '@/lib/shopify';
+
+vi.mock('@shopify/shopify-app-session-storage-prisma', () => ({
+  PrismaSessionStorage: vi.fn(),
+}));
+
+const session = { shop: 'test-shop.myshopify.com', accessToken: 'test-token' };
+
+describe('shopifyHelpers', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('setAppMetafield', () => {
+    function mockMetafieldsSet(userErrors: { field: string[]; message: string }[]) {
+      const query = vi.fn().mockResolvedValue({
+        body: {
+          data: {
+            metafieldsSet: {
+              metafields: userErrors.length > 0 ? [] : [{ id: 'gid://shopify/Metafield/1' }],
+              userErrors,
+            },
+          },
+        },
+      });
+      vi.spyOn(shopifyHelpers, 'createGraphQLClient').mockReturnValue({ query } as any);
+      vi.spyOn(shopifyHelpers, 'getAppInstallationId').mockResolvedValue('gid://shopify/AppInstallation/1');
+      return query;
+    }
+
+    it('should write the value as a JSON metafield on the app installation', async () => {
+      const query = mockMetafieldsSet([]);
+
+      const result = await shopifyHelpers.setAppMetafield(session, 'popup_settings', { message: 'Hi' });
+
+      expect(result.metafields).toHaveLength(1);
+      expect(query.mock.calls[0][0].data.variables.metafields[0]).toEqual({
+        ownerId: 'gid://shopify/AppInstallation/1',
+        namespace: 'privacy_popup',
+        key: 'popup_settings',
+        type: 'json',
+        value: JSON.stringify({ message: 'Hi' }),
+      });
+    });
+
+    it('should throw when Shopify rejects the metafield', async () => {
+      mockMetafieldsSet([{ field: ['metafields', '0', 'value'], message: 'Value is too long' }]);
+
+      await expect(
+        shopifyHelpers.setAppMetafield(session, 'popup_settings', { message: 'Hi' })
+      ).rejects.toThrow('Value is too long');
+    });
+  });
+
+  describe('verifyProxySignature', () => {
+    // Example request and secret from Shopify's app proxy documentation
+    const secret = 'hush';
+    const signedQuery =
+      'extra=1&extra=2&shop=shop-name.myshopify.com&path_prefix=%2Fapps%2Fawesome_reviews' +
+      '&timestamp=1317327555&signature=a9718877bea71c2484f91608a7eaea1532bdf71f5c56825065fa4ccabe549ef3';
+
+    let originalSecret: string | undefined;
+
+    beforeEach(() => {
+      originalSecret = process.env.SHOPIFY_API_SECRET;
+      process.env.SHOPIFY_API_SECRET = secret;
+    });
+
+    afterEach(() => {
+      process.env.SHOPIFY_API_SECRET = originalSecret;
+    });
+
+    it('should accept a valid signature with repeated keys joined by commas', () => {
+      expect(shopifyHelpers.verifyProxySignature(new URLSearchParams(signedQuery))).toBe(true);
+    });
+
+    it('should reject a tampered parameter', () => {
+      const query = new URLSearchParams(signedQuery);
+      query.set('shop', 'other-shop.myshopify.com');
+
+      expect(shopifyHelpers.verifyProxySignature(query)).toBe(false);
+    });
+
+    it('should reject repeated keys that are not joined in order', () => {
+      const query = new URLSearchParams(signedQuery.replace('extra=1&extra=2', 'extra=2&extra=1'));
+
+      expect(shopifyHelpers.verifyProxySignature(query)).toBe(false);
+    });
+
+    it('should reject a request without a signature', () => {
+      const query = new URLSearchParams(signedQuery);
+      query.delete('signature');
+
+      expect(shopifyHelpers.verifyProxySignature(query)).toBe(false);
+    });
+
+    it('should reject a signature of the wrong length without throwing', () => {
+      const query = new URLSearchParams(signedQuery);
+
+      query.set('signature', 'abc123');
+      expect(shopifyHelpers.verifyProxySignature(query)).toBe(false);
+
+      // Same number of characters as a hex digest, but more bytes
+      query.set('signature', '\u00e9'.repeat(64));
+      expect(() => shopifyHelpers.verifyProxySignature(query)).not.toThrow();
+      expect(shopifyHelpers.verifyProxySignature(query)).toBe(false);
+    });
+  });
+});
@@ -13,18 +13,236 @@ export interface ShopWithActiveSubscription extends Shop {
   activeSubscription?: Subscription | null;
 }
 
+// Consent category types
+export type ConsentCategoryId = 'necessary' | 'preferences' | 'analytics' | 'marketing';
+
+export interface ConsentCategory {
+  id: ConsentCategoryId;
+  label: string;
+  description: string;
+  enabled: boolean;
+}
+
+// Storefront interface text
+export type PopupStringKey =
+  | 'title'
+  | 'close'
+  | 'accept'
+  | 'reject'
+  | 'customize'
+  | 'dismiss'
+  | 'acknowledge'
+  | 'learnMore'
+  | 'preferencesTitle'
+  | 'savePreferences'
+  | 'back'
+  | 'shownAnnouncement'
+  | 'dismissedAnnouncement'
+  | 'savedAnnouncement'
+  | 'gpcAcknowledgment'
+  | 'dntAcknowledgment'
+  | 'reopen';
+
+export type PopupStrings = Record<PopupStringKey, string>;
+
+// Text of the popup's buttons, privacy policy link and close button
+export type PopupLabelKey =
+  | 'accept'
+  | 'reject'
+  | 'customize'
+  | 'dismiss'
+  | 'acknowledge'
+  | 'savePreferences'
+  | 'back'
+  | 'learnMore'
+  | 'close'
+  | 'reopen';
+
+export type PopupLabels = Pick<PopupStrings, PopupLabelKey>;
+
+// Per-locale overrides; empty or missing text falls back to the primary language
+export interface PopupTranslation {
+  message: string;
+  strings: Partial<PopupStrings>;
+  categories: Partial<Record<ConsentCategoryId, Partial<Pick<ConsentCategory, 'label' | 'description'>>>>;
+}
+
+// Geo-targeting types
+export type RegionBehavior = 'banner' | 'notice' | 'hidden';
+
+export interface RegionRule {
+  regions: string[];
+  behavior: RegionBehavior;
+}
+
+// 'card' is placed by `position`; the other layouts place themselves
+export type PopupLayout =
+  | 'card'
+  | 'bar-top'
+  | 'bar-bottom'
+  | 'corner-bottom-left'
+  | 'corner-bottom-right'
+  | 'modal';
+
+// Page targeting: exclude rules always win; with any include rules, only matching pages show the popup
+export interface PageRule {
+  mode: 'include' | 'exclude';
+  match: 'template' | 'url';
+  value: string;
+}
+
+// When the popup appears once it is due
+export type DisplayTriggerType = 'immediate' | 'delay' | 'scroll' | 'page_views' | 'exit_intent';
+
+export interface DisplayTrigger {
+  type: DisplayTriggerType;
+  delaySeconds: number;
+  scrollPercent: number;
+  pageViews: number;
+}
+
+// Floating button that reopens the preferences once the popup is closed
+export type ReopenWidgetPosition = 'bottom-left' | 'bottom-right';
+
+export type ReopenWidgetStyle = 'icon' | 'label' | 'icon_label';
+
+export type ReopenWidgetIcon = 'cookie' | 'shield';
+
+export interface ReopenWidget {
+  enabled: boolean;
+  position: ReopenWidgetPosition;
+  style: ReopenWidgetStyle;
+  icon: ReopenWidgetIcon;
+}
+
+// 'auto' takes the popup colors from the theme's CSS custom properties when it defines them
+export type PopupColorScheme = 'custom' | 'auto';
+
+export interface PopupColors {
+  bgColor: string;
+  textColor: string;
+  linkColor: string;
+}
+
+// Colors used instead of the main ones when the shopper's device asks for them
+export interface PopupColorVariant extends PopupColors {
+  enabled: boolean;
+}
+
+// Where consent choices are kept in the shopper's browser
+export type ConsentStorageMode = 'local_storage' | 'cookie';
+
+export type CookieSameSite = 'Lax' | 'Strict' | 'None';
+
+// Cookie settings apply in 'cookie' mode, which also writes localStorage as a fallback
+export interface ConsentStorageSettings {
+  mode: ConsentStorageMode;
+  cookieDomain: string;
+  sameSite: CookieSameSite;
+  cookieLifetimeDays: number;
+}
+
 // Popup settings type
 export interface PopupSettings {
   message: string;
   linkUrl: string;
+  layout: PopupLayout;
   position: 'top' | 'bottom' | 'left' | 'right';
+  showBackdrop: boolean;
   maxWidth: number;
   padding: number;
   zIndex: number;
   dismissible: boolean;
+  showRejectAll: boolean;
+  honorDoNotTrack: boolean;
   bgColor: string;
   textColor: string;
   linkColor: string;
+  colorScheme: PopupColorScheme;
+  darkColors: PopupColorVariant;
+  highContrastColors: PopupColorVariant;
+  categories: ConsentCategory[];
+  consentVersion: number;
+  consentLifetimeDays: number;
+  storage: ConsentStorageSettings;
+  regionRules: RegionRule[];
+  defaultRegionBehavior: RegionBehavior;
+  displayTrigger: DisplayTrigger;
+  pageRules: PageRule[];
+  reopenWidget: ReopenWidget;
+  customCss: string;
+  labels: PopupLabels;
+  translations: Record<string, PopupTranslation>;
+}
+
+// Google Consent Mode v2 settings
+export interface ConsentModeSettings {
+  enabled: boolean;
+  regions: string[];
+}
+
+// Cookie scanner results
+export interface ScannedPage {
+  path: string;
+  status: number;
+}
+
+// 'header' cookies were seen in a Set-Cookie header; 'vendor' cookies are the ones a detected
+// vendor script is known to set from JavaScript
+export interface ScannedCookie {
+  name: string;
+  source: 'header' | 'vendor';
+  vendor: string | null;
+  category: ConsentCategoryId | null;
+  purpose: string | null;
+  duration: string | null;
+  pages: string[];
+}
+
+// Third-party script or iframe origin found in a page's HTML
+export interface ScannedResource {
+  origin: string;
+  type: 'script' | 'iframe';
+  vendor: string | null;
+  category: ConsentCategoryId | null;
+  pages: string[];
+}
+
+export interface CookieScanResult {
+  scannedAt: string;
+  origin: string;
+  passwordProtected: boolean;
+  pages: ScannedPage[];
+  cookies: ScannedCookie[];
+  resources: ScannedResource[];
+}
+
+// Cookie declaration types
+export interface DeclaredCookie {
+  name: string;
+  provider: string;
+  purpose: string;
+  category: ConsentCategoryId;
+  duration: string;
+}
+
+// Privacy policy generator types
+// 'page' is an online store page at /pages/privacy-policy; 'shop_policy' is the shop's own
+// privacy policy at /policies/privacy-policy
+export type PrivacyPolicyTarget = 'page' | 'shop_policy';
+
+export type PrivacyPolicyJurisdiction = 'gdpr' | 'uk_gdpr' | 'us' | 'general';
+
+export interface PolicyBusinessDetails {
+  name: string;
+  email: string;
+  address: string;
+  country: string;
+}
+
+export interface PolicyDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
 }
 
 // API Response types